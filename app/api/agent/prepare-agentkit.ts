@@ -52,13 +52,16 @@ type WalletData = {
  * Prepares the AgentKit and WalletProvider.
  *
  * @function prepareAgentkitAndWalletProvider
+ * @param {string} [walletAddress] - Smart wallet to lock to, defaults to AI_WALLET
  * @returns {Promise<{ agentkit: AgentKit, walletProvider: WalletProvider }>} The initialized AI agent.
  *
  * @description Handles agent setup
  *
  * @throws {Error} If the agent initialization fails.
  */
-export async function prepareAgentkitAndWalletProvider(): Promise<{
+export async function prepareAgentkitAndWalletProvider(
+  walletAddress: string | undefined = process.env.AI_WALLET,
+): Promise<{
   agentkit: AgentKit;
   walletProvider: WalletProvider;
 }> {
@@ -95,7 +98,7 @@ export async function prepareAgentkitAndWalletProvider(): Promise<{
       networkId: process.env.NETWORK_ID || "base-sepolia",
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       owner: owner as any,
-      address: process.env.AI_WALLET as Address, // Lock to specific wallet from .env
+      address: walletAddress as Address, // Lock to specific wallet (AI_WALLET unless a player wallet is given)
       paymasterUrl: process.env.PAYMASTER_URL, // Sponsor transactions: https://docs.cdp.coinbase.com/paymaster/docs/welcome
       rpcUrl: process.env.RPC_URL,
       idempotencyKey: process.env.IDEMPOTENCY_KEY,
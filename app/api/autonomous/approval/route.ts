@@ -0,0 +1,78 @@
+/**
+ * Operator Approval API
+ *
+ * GET /api/autonomous/approval - Pending proposal (start/hit/stand) and approval config
+ * POST /api/autonomous/approval - Approve or reject the pending proposal
+ *
+ * Query (GET): ?player=0x...
+ * Body (POST): { proposalId: string, verdict: "approve" | "reject", player?: string }
+ * The player defaults to the first configured wallet. A stand at 21 can't be
+ * rejected (hitting isn't allowed there); the proposal stays pending.
+ */
+
+import { NextResponse } from "next/server";
+import playerManager from "@/lib/player-manager";
+
+export async function GET(req: Request) {
+  try {
+    const playerId = new URL(req.url).searchParams.get("player");
+    const autonomousPlayer = playerManager.get(playerId);
+    if (!autonomousPlayer) {
+      return NextResponse.json({ error: `Unknown player: ${playerId}` }, { status: 404 });
+    }
+
+    const status = await autonomousPlayer.getStatus();
+    return NextResponse.json({
+      pendingProposal: status.pendingProposal,
+      approval: status.approval,
+    });
+  } catch (error) {
+    console.error("API Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const { proposalId, verdict, player } = await req.json();
+
+    const autonomousPlayer = playerManager.get(player);
+    if (!autonomousPlayer) {
+      return NextResponse.json({ error: `Unknown player: ${player}` }, { status: 404 });
+    }
+
+    if (typeof proposalId !== "string" || !proposalId) {
+      return NextResponse.json({ error: "proposalId is required" }, { status: 400 });
+    }
+    if (verdict !== "approve" && verdict !== "reject") {
+      return NextResponse.json({ error: "verdict must be 'approve' or 'reject'" }, { status: 400 });
+    }
+
+    const pending = autonomousPlayer.getPendingProposal();
+    if (verdict === "reject" && pending?.id === proposalId && !pending.rejectable) {
+      return NextResponse.json(
+        { error: `This ${pending.action} can't be rejected: the other action isn't allowed at ${pending.playerTotal}` },
+        { status: 409 }
+      );
+    }
+
+    const accepted = autonomousPlayer.decideProposal(proposalId, verdict === "approve" ? "approved" : "rejected");
+    if (!accepted) {
+      return NextResponse.json(
+        { error: "Proposal is no longer pending (already decided or timed out)" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, proposalId, verdict });
+  } catch (error) {
+    console.error("API Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Claim Sweep API
+ *
+ * GET /api/autonomous/claims - Last sweep report and running totals
+ * POST /api/autonomous/claims - Sweep unclaimed winnings across all of the wallet's games now
+ *
+ * Query (GET): ?player=0x...
+ * Body (POST): { player?: string }
+ * The player defaults to the first configured wallet. Sweeps also run before
+ * each session and every CLAIM_SWEEP_INTERVAL_MINUTES.
+ */
+
+import { NextResponse } from "next/server";
+import playerManager from "@/lib/player-manager";
+
+export async function GET(req: Request) {
+  try {
+    const playerId = new URL(req.url).searchParams.get("player");
+    const autonomousPlayer = playerManager.get(playerId);
+    if (!autonomousPlayer) {
+      return NextResponse.json({ error: `Unknown player: ${playerId}` }, { status: 404 });
+    }
+
+    const status = await autonomousPlayer.getStatus();
+    return NextResponse.json({ claimSweep: status.claimSweep });
+  } catch (error) {
+    console.error("API Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const { player } = await req.json().catch(() => ({}));
+
+    const autonomousPlayer = playerManager.get(player);
+    if (!autonomousPlayer) {
+      return NextResponse.json({ error: `Unknown player: ${player}` }, { status: 404 });
+    }
+
+    if (autonomousPlayer.isPlaying()) {
+      return NextResponse.json(
+        { error: "A session is running, claims are swept between its games" },
+        { status: 409 }
+      );
+    }
+
+    console.log(`🧹 API: Sweeping claims for ${autonomousPlayer.id}...`);
+    const report = await autonomousPlayer.sweepClaimsNow();
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error("API Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
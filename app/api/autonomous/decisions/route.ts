@@ -0,0 +1,43 @@
+/**
+ * Decision Audit API
+ *
+ * GET /api/autonomous/decisions - Recorded hit/stand decisions with EV of each alternative
+ *
+ * Query: ?player=0x...&gameId=123&limit=100 (all players unless one is given)
+ */
+
+import { NextResponse } from "next/server";
+import { readDecisions, summarizeDecisions } from "@/lib/decision-log";
+import playerManager from "@/lib/player-manager";
+
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const playerId = searchParams.get("player");
+    const gameId = searchParams.get("gameId") || undefined;
+    const limitParam = searchParams.get("limit");
+    const limit = limitParam ? parseInt(limitParam, 10) : 100;
+
+    if (!Number.isInteger(limit) || limit <= 0) {
+      return NextResponse.json({ error: "limit must be a positive integer" }, { status: 400 });
+    }
+
+    const player = playerId ? playerManager.get(playerId) : null;
+    if (playerId && !player) {
+      return NextResponse.json({ error: `Unknown player: ${playerId}` }, { status: 404 });
+    }
+
+    const decisions = readDecisions({ player: player?.id, gameId, limit });
+
+    return NextResponse.json({
+      decisions,
+      summary: summarizeDecisions(decisions),
+    });
+  } catch (error) {
+    console.error("API Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * P&L Ledger API
+ *
+ * GET /api/autonomous/ledger - Per-game realized P&L in ETH and wASS, with totals
+ * and a gas cost report (paid vs paymaster-sponsored, L1 fees, by action)
+ *
+ * Query: ?player=0x...&gameId=123&limit=100 (all players unless one is given)
+ * Pass entries=true to include the raw ledger entries.
+ */
+
+import { NextResponse } from "next/server";
+import { readGameLedgers, readLedgerEntries, summarizeCosts, summarizeLedger } from "@/lib/pnl-ledger";
+import playerManager from "@/lib/player-manager";
+
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const playerId = searchParams.get("player");
+    const gameId = searchParams.get("gameId") || undefined;
+    const limitParam = searchParams.get("limit");
+    const limit = limitParam ? parseInt(limitParam, 10) : 100;
+
+    if (!Number.isInteger(limit) || limit <= 0) {
+      return NextResponse.json({ error: "limit must be a positive integer" }, { status: 400 });
+    }
+
+    const player = playerId ? playerManager.get(playerId) : null;
+    if (playerId && !player) {
+      return NextResponse.json({ error: `Unknown player: ${playerId}` }, { status: 404 });
+    }
+
+    const query = { player: player?.id, gameId };
+    const allGames = readGameLedgers(query);
+    const entries = readLedgerEntries(query);
+
+    return NextResponse.json({
+      games: allGames.slice(-limit),
+      summary: summarizeLedger(allGames),
+      costs: summarizeCosts(entries),
+      ...(searchParams.get("entries") === "true" && { entries }),
+    });
+  } catch (error) {
+    console.error("API Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Players API
+ *
+ * GET /api/autonomous/players - Every configured player wallet with its status
+ *
+ * Pass a player's id as `player` to the other autonomous endpoints to control it.
+ */
+
+import { NextResponse } from "next/server";
+import playerManager from "@/lib/player-manager";
+
+export async function GET() {
+  try {
+    const statuses = await playerManager.getStatuses();
+    return NextResponse.json({
+      defaultPlayer: playerManager.getDefaultId(),
+      players: statuses.map((status) => ({
+        ...status,
+        currentGameId: status.currentGameId?.toString() || null,
+      })),
+    });
+  } catch (error) {
+    console.error("API Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
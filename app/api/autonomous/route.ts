@@ -5,37 +5,156 @@
  */
 
 import { NextResponse } from "next/server";
-import autonomousPlayer from "@/lib/autonomous-player";
+import playerManager from "@/lib/player-manager";
+import { isStrategyName, STRATEGY_NAMES } from "@/lib/decision-strategy";
+import { validateSessionConfig } from "@/lib/session";
+import { validateApprovalConfig } from "@/lib/approval";
 
 /**
  * POST /api/autonomous - Start or stop autonomous play
+ *
+ * Body: {
+ *   action: "start" | "stop" | "pause" | "resume" | "step",
+ *   player?: string (wallet address, defaults to the first configured wallet),
+ *   strategy?: "optimal" | "table" | "ai" | "hybrid",
+ *   guardrail?: { enabled?: boolean, threshold?: number },
+ *   session?: { maxGames?, durationMinutes?, stopLossEth?, takeProfitEth?, minBalanceEth?, maxConsecutiveLosses?, paymasterBudgetEth? },
+ *   restartAfterCancel?: boolean,
+ *   approval?: { enabled?: boolean, timeoutSeconds?: number, defaultPolicy?: "approve" | "reject" | "optimal" }
+ * }
+ *
+ * Without session options a single game is played. "pause" holds at the next
+ * decision or game start (after the in-flight action settles), "step" lets one
+ * decision through while paused, and "resume" continues a paused run. When not
+ * paused, "resume" continues the unfinished session left in the journal by a
+ * crash or reload (see status.resumable).
+ *
+ * Each player wallet runs independently, so one can be started while another
+ * is mid-game.
  */
 export async function POST(req: Request) {
   try {
     const body = await req.json();
-    const { action } = body;
+    const { action, strategy, guardrail, session, restartAfterCancel, approval } = body;
+
+    const autonomousPlayer = playerManager.get(body.player);
+    if (!autonomousPlayer) {
+      return NextResponse.json({ error: `Unknown player: ${body.player}` }, { status: 404 });
+    }
 
     if (action === "start") {
-      console.log("🎮 API: Starting autonomous play...");
-      await autonomousPlayer.start();
+      if (strategy !== undefined && !isStrategyName(strategy)) {
+        return NextResponse.json(
+          { error: `Invalid strategy. Use one of: ${STRATEGY_NAMES.join(", ")}` },
+          { status: 400 }
+        );
+      }
+
+      if (
+        guardrail !== undefined &&
+        (!guardrail ||
+          typeof guardrail !== "object" ||
+          (guardrail.enabled !== undefined && typeof guardrail.enabled !== "boolean") ||
+          (guardrail.threshold !== undefined && (typeof guardrail.threshold !== "number" || guardrail.threshold < 0)))
+      ) {
+        return NextResponse.json(
+          { error: "Invalid guardrail. Use { enabled?: boolean, threshold?: non-negative number }" },
+          { status: 400 }
+        );
+      }
+
+      if (session !== undefined) {
+        const sessionError = validateSessionConfig(session);
+        if (sessionError) {
+          return NextResponse.json({ error: sessionError }, { status: 400 });
+        }
+      }
+
+      if (approval !== undefined) {
+        const approvalError = validateApprovalConfig(approval);
+        if (approvalError) {
+          return NextResponse.json({ error: approvalError }, { status: 400 });
+        }
+      }
+
+      if (restartAfterCancel !== undefined && typeof restartAfterCancel !== "boolean") {
+        return NextResponse.json({ error: "restartAfterCancel must be a boolean" }, { status: 400 });
+      }
+
+      console.log(`🎮 API: Starting autonomous play for ${autonomousPlayer.id} (strategy: ${strategy || "default"})...`);
+      await autonomousPlayer.start({
+        strategy,
+        guardrail: guardrail && { enabled: guardrail.enabled, threshold: guardrail.threshold },
+        session,
+        restartAfterCancel,
+        approval: approval && {
+          enabled: approval.enabled,
+          timeoutSeconds: approval.timeoutSeconds,
+          defaultPolicy: approval.defaultPolicy,
+        },
+      });
       const status = await autonomousPlayer.getStatus();
       return NextResponse.json({
         success: true,
         message: "Autonomous play started",
+        sessionId: status.session?.id,
         status,
       });
     } else if (action === "stop") {
       console.log("🛑 API: Stopping autonomous play...");
-      autonomousPlayer.stop();
+      await autonomousPlayer.stop();
       const status = await autonomousPlayer.getStatus();
       return NextResponse.json({
         success: true,
         message: "Autonomous play stopped and cleaned up",
         status,
       });
+    } else if (action === "pause" || action === "step") {
+      if (!autonomousPlayer.isPlaying() || (action === "step" && !autonomousPlayer.isPaused())) {
+        return NextResponse.json(
+          { error: action === "pause" ? "Not running" : "Step is only available while paused" },
+          { status: 409 }
+        );
+      }
+
+      console.log(`${action === "pause" ? "⏸️" : "⏭️"}  API: ${action} autonomous play...`);
+      if (action === "pause") {
+        autonomousPlayer.pause();
+      } else {
+        autonomousPlayer.step();
+      }
+      const status = await autonomousPlayer.getStatus();
+      return NextResponse.json({
+        success: true,
+        message: action === "pause" ? "Autonomous play pausing at the next decision" : "Stepping one decision",
+        status,
+      });
+    } else if (action === "resume" && autonomousPlayer.isPaused()) {
+      console.log("▶️  API: Resuming paused play...");
+      autonomousPlayer.resume();
+      const status = await autonomousPlayer.getStatus();
+      return NextResponse.json({
+        success: true,
+        message: "Autonomous play resumed",
+        status,
+      });
+    } else if (action === "resume") {
+      if (!autonomousPlayer.getResumable()) {
+        return NextResponse.json({ error: "Nothing to resume" }, { status: 409 });
+      }
+
+      console.log("♻️  API: Resuming interrupted session...");
+      await autonomousPlayer.resumeSession();
+      const status = await autonomousPlayer.getStatus();
+      return NextResponse.json({
+        success: true,
+        message: "Autonomous play resumed",
+        sessionId: status.session?.id,
+        status,
+      });
     } else {
       return NextResponse.json(
-        { error: "Invalid action. Use 'start' or 'stop'" },
+        { error: "Invalid action. Use 'start', 'stop', 'pause', 'resume' or 'step'" },
         { status: 400 }
       );
     }
@@ -50,9 +169,17 @@ export async function POST(req: Request) {
 
 /**
  * GET /api/autonomous - Get current status
+ *
+ * Query: ?player=0x... (defaults to the first configured wallet)
  */
-export async function GET() {
+export async function GET(req: Request) {
   try {
+    const playerId = new URL(req.url).searchParams.get("player");
+    const autonomousPlayer = playerManager.get(playerId);
+    if (!autonomousPlayer) {
+      return NextResponse.json({ error: `Unknown player: ${playerId}` }, { status: 404 });
+    }
+
     const status = await autonomousPlayer.getStatus();
     return NextResponse.json(status);
   } catch (error) {
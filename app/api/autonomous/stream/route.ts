@@ -1,7 +1,8 @@
 /**
  * Server-Sent Events (SSE) Stream for Real-Time Updates
  *
- * Provides real-time game events to the dashboard.
+ * Provides real-time game events to the dashboard, one player per stream.
+ * Query: ?player=0x... (defaults to the first configured wallet)
  *
  * NOTE: Cannot use Edge Runtime due to @coinbase/agentkit using Node.js 'fs' module.
  * Uses Node.js runtime with Vercel timeout limits:
@@ -14,10 +15,9 @@
  * 3. Client-side polling as fallback
  */
 
-import autonomousPlayer from "@/lib/autonomous-player";
+import playerManager from "@/lib/player-manager";
 import { GameLoopEvent } from "@/lib/game-loop";
-import { CdpSmartWalletProvider } from "@coinbase/agentkit";
-import { BlackjackRPCClient } from "@/lib/rpc-client";
+import { createReader } from "@/lib/chain-reader";
 
 /**
  * Helper to serialize BigInt values for JSON
@@ -30,25 +30,10 @@ function serializeBigInt(key: string, value: any): any {
 }
 
 /**
- * Fetch real stats from blockchain
+ * Fetch real stats from blockchain (read-only client, shared per process)
  */
-async function fetchRealStats() {
-  const walletProvider = await CdpSmartWalletProvider.configureWithWallet({
-    apiKeyId: process.env.CDP_API_KEY_ID!,
-    apiKeySecret: process.env.CDP_API_KEY_SECRET!,
-    walletSecret: process.env.CDP_WALLET_SECRET,
-    networkId: process.env.NETWORK_ID || "base-sepolia",
-  });
-
-  const playerAddress = process.env.AI_WALLET;
-  const contractAddress = process.env.BLACKJACK_CONTRACT_ADDRESS;
-
-  if (!contractAddress || !playerAddress) {
-    throw new Error("Missing required environment variables: BLACKJACK_CONTRACT_ADDRESS and AI_WALLET");
-  }
-
-  const rpcClient = new BlackjackRPCClient(walletProvider, contractAddress, playerAddress);
-  const stats = await rpcClient.getPlayerStats();
+async function fetchRealStats(playerAddress: string) {
+  const stats = await createReader(playerAddress).getPlayerStats();
 
   return {
     gamesPlayed: Number(stats.gamesPlayed),
@@ -66,7 +51,13 @@ async function fetchRealStats() {
 /**
  * GET /api/autonomous/stream - SSE endpoint for real-time updates
  */
-export async function GET() {
+export async function GET(req: Request) {
+  const playerId = new URL(req.url).searchParams.get("player");
+  const autonomousPlayer = playerManager.get(playerId);
+  if (!autonomousPlayer) {
+    return Response.json({ error: `Unknown player: ${playerId}` }, { status: 404 });
+  }
+
   // Create SSE stream
   const encoder = new TextEncoder();
 
@@ -98,7 +89,7 @@ export async function GET() {
         try {
           const status = await autonomousPlayer.getStatus();
           // Fetch real stats from blockchain
-          const realStats = await fetchRealStats();
+          const realStats = await fetchRealStats(autonomousPlayer.getAddress());
 
           // Convert BigInt to string for JSON serialization
           const serializableStatus = {
@@ -137,7 +128,7 @@ export async function GET() {
         try {
           const status = await autonomousPlayer.getStatus();
           // Fetch real stats from blockchain
-          const realStats = await fetchRealStats();
+          const realStats = await fetchRealStats(autonomousPlayer.getAddress());
 
           // Convert BigInt to string for JSON serialization
           const serializableStatus = {
@@ -0,0 +1,82 @@
+/**
+ * Game History API
+ *
+ * GET /api/games - Games from the local event index, newest first
+ *
+ * Query: ?player=0x...&outcome=win&from=2025-01-01&to=1735776000&limit=100&offset=0
+ * from/to filter on the start time (unix seconds or an ISO date); outcome is one
+ * of pending, win, lose, push, bust, cancelled. Pass gameId=123 for one game
+ * with its events. Every response includes the indexer status.
+ */
+
+import { NextResponse } from "next/server";
+import eventIndexer, { GAME_OUTCOMES, INDEXER_ENABLED } from "@/lib/event-indexer";
+import type { GameOutcome } from "@/lib/event-indexer";
+
+/**
+ * Parse unix seconds or a date string, undefined if absent, NaN if invalid
+ */
+function parseTime(value: string | null): number | undefined {
+  if (!value) return undefined;
+  return /^\d+$/.test(value) ? parseInt(value, 10) : Math.floor(Date.parse(value) / 1000);
+}
+
+export async function GET(req: Request) {
+  try {
+    if (INDEXER_ENABLED) {
+      eventIndexer.start();
+    }
+
+    const { searchParams } = new URL(req.url);
+    const gameId = searchParams.get("gameId");
+
+    if (gameId) {
+      const game = eventIndexer.getGame(gameId);
+      if (!game) {
+        return NextResponse.json({ error: `Game ${gameId} not indexed` }, { status: 404 });
+      }
+      return NextResponse.json({
+        game,
+        events: eventIndexer.getGameEvents(gameId),
+        indexer: eventIndexer.getStatus(),
+      });
+    }
+
+    const outcome = searchParams.get("outcome");
+    if (outcome && !GAME_OUTCOMES.includes(outcome as GameOutcome)) {
+      return NextResponse.json(
+        { error: `outcome must be one of: ${GAME_OUTCOMES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const from = parseTime(searchParams.get("from"));
+    const to = parseTime(searchParams.get("to"));
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      return NextResponse.json({ error: "from and to must be unix seconds or a date" }, { status: 400 });
+    }
+
+    const limit = parseInt(searchParams.get("limit") || "100", 10);
+    const offset = parseInt(searchParams.get("offset") || "0", 10);
+    if (!Number.isInteger(limit) || limit <= 0 || !Number.isInteger(offset) || offset < 0) {
+      return NextResponse.json({ error: "limit must be positive and offset non-negative" }, { status: 400 });
+    }
+
+    const games = eventIndexer.queryGames({
+      player: searchParams.get("player") || undefined,
+      from,
+      to,
+      outcome: (outcome as GameOutcome) || undefined,
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({ games, indexer: eventIndexer.getStatus() });
+  } catch (error) {
+    console.error("API Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,42 +2,35 @@
  * Player Stats API Endpoint
  *
  * GET /api/stats - Returns player statistics from blockchain
+ *
+ * Query: ?player=0x... (defaults to the first configured wallet)
  */
 
-import { CdpSmartWalletProvider } from "@coinbase/agentkit";
-import { BlackjackRPCClient } from "@/lib/rpc-client";
+import { createReader } from "@/lib/chain-reader";
+import playerManager from "@/lib/player-manager";
 
-export async function GET() {
+export async function GET(req: Request) {
   try {
-    if (!process.env.AI_WALLET) {
+    if (!playerManager.getDefaultId()) {
       return Response.json({ success: false, error: "AI_WALLET not configured" }, { status: 500 });
     }
 
-    if (!process.env.BLACKJACK_CONTRACT_ADDRESS) {
-      return Response.json({ success: false, error: "BLACKJACK_CONTRACT_ADDRESS not configured" }, { status: 500 });
+    const playerId = new URL(req.url).searchParams.get("player");
+    const player = playerManager.get(playerId);
+    if (!player) {
+      return Response.json({ success: false, error: `Unknown player: ${playerId}` }, { status: 404 });
     }
 
-    // Initialize wallet provider
-    const walletProvider = await CdpSmartWalletProvider.configureWithWallet({
-      apiKeyId: process.env.CDP_API_KEY_ID!,
-      apiKeySecret: process.env.CDP_API_KEY_SECRET!,
-      walletSecret: process.env.CDP_WALLET_SECRET,
-      networkId: process.env.NETWORK_ID || "base-sepolia",
-    });
-
-    // Use AI_WALLET address (EOA) not smart wallet address
-    const playerAddress = process.env.AI_WALLET;
-    const contractAddress = process.env.BLACKJACK_CONTRACT_ADDRESS;
-
-    if (!contractAddress || !playerAddress) {
-      throw new Error("Missing required environment variables: BLACKJACK_CONTRACT_ADDRESS and AI_WALLET");
+    if (!process.env.BLACKJACK_CONTRACT_ADDRESS) {
+      return Response.json({ success: false, error: "BLACKJACK_CONTRACT_ADDRESS not configured" }, { status: 500 });
     }
 
-    // Initialize RPC client
-    const rpcClient = new BlackjackRPCClient(walletProvider, contractAddress, playerAddress);
+    // Read-only client, no wallet credentials needed
+    const playerAddress = player.getAddress();
+    const reader = createReader(playerAddress);
 
     // Fetch stats directly from blockchain
-    const stats = await rpcClient.getPlayerStats();
+    const stats = await reader.getPlayerStats();
 
     // Convert BigInt to number for JSON serialization
     const serializedStats = {
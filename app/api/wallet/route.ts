@@ -2,12 +2,14 @@
  * Wallet Info API
  *
  * Returns AI wallet address, ETH balance, and wASS token balance
+ *
+ * Query: ?player=0x... (defaults to the first configured wallet)
  */
 
 import { NextResponse } from "next/server";
-import { createRPCClient } from "@/lib/rpc-client-factory";
-import { createPublicClient, http, formatUnits } from "viem";
-import { base, baseSepolia } from "viem/chains";
+import { createReader, getReadClient } from "@/lib/chain-reader";
+import playerManager from "@/lib/player-manager";
+import { formatUnits } from "viem";
 
 const WASS_CONTRACT_ADDRESS = "0x445040FfaAb67992Ba1020ec2558CD6754d83Ad6";
 
@@ -29,30 +31,29 @@ const ERC20_ABI = [
   },
 ] as const;
 
-export async function GET() {
+export async function GET(req: Request) {
   try {
-    // Get wallet address from env
-    const walletAddress = process.env.AI_WALLET;
-
-    if (!walletAddress) {
+    if (!playerManager.getDefaultId()) {
       return NextResponse.json(
         { error: "AI_WALLET not configured" },
         { status: 500 }
       );
     }
 
-    // Create RPC client to check ETH balance
-    const rpcClient = await createRPCClient();
-    const balance = await rpcClient.getBalance();
+    // Get the player's wallet address
+    const playerId = new URL(req.url).searchParams.get("player");
+    const player = playerManager.get(playerId);
+    if (!player) {
+      return NextResponse.json({ error: `Unknown player: ${playerId}` }, { status: 404 });
+    }
+    const walletAddress = player.getAddress();
+
+    // Read-only client to check ETH balance
+    const balance = await createReader(walletAddress).getBalance();
     const balanceEth = Number(balance) / 1e18;
 
-    // Create public client for reading wASS balance
-    const networkId = process.env.NETWORK_ID || "base-sepolia";
-    const chain = networkId === "base-mainnet" ? base : baseSepolia;
-    const publicClient = createPublicClient({
-      chain,
-      transport: http(process.env.RPC_URL),
-    });
+    // Shared public client for reading wASS balance
+    const publicClient = getReadClient();
 
     // Get wASS balance
     const wAssBalance = await publicClient.readContract({
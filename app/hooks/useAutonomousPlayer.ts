@@ -2,12 +2,18 @@
  * useAutonomousPlayer Hook
  *
  * React hook for controlling and monitoring autonomous blackjack play.
+ * Pass a player id (wallet address) to follow one of several player wallets;
+ * without one the server's default player is used.
  */
 
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
 import { GameLoopState, GameLoopEvent, GameStats } from "@/lib/game-loop";
+import type { StrategyName } from "@/lib/decision-strategy";
+import type { SessionConfig, SessionProgress } from "@/lib/session";
+import type { Proposal } from "@/lib/approval";
+import type { LedgerSummary } from "@/lib/pnl-ledger";
 
 interface CardData {
   rank: string;
@@ -23,11 +29,27 @@ interface CurrentCards {
 }
 
 interface AutonomousPlayerStatus {
+  playerId?: string;
+  address?: string;
   isRunning: boolean;
   currentState: GameLoopState;
   stats: GameStats;
   currentGameId: bigint | null;
   error: string | null;
+  strategy?: StrategyName;
+  session?: SessionProgress | null;
+  paused?: boolean;
+  pendingProposal?: Proposal | null;
+  resumable?: { sessionId: string; gamesPlayed: number; savedAt: number } | null;
+  dryRun?: boolean;
+}
+
+interface PlayerSummary {
+  playerId: string;
+  address: string;
+  isRunning: boolean;
+  paused: boolean;
+  currentState: GameLoopState;
 }
 
 interface LastGameResult {
@@ -50,13 +72,19 @@ interface UseAutonomousPlayerResult {
   isSelling: boolean;
   error: string | null;
   walletInfo: { address: string; balance: number; wAssBalance: number } | null;
-  startPlay: () => Promise<void>;
+  players: PlayerSummary[];
+  ledger: LedgerSummary | null;
+  startPlay: (strategy?: StrategyName, session?: SessionConfig) => Promise<void>;
   stopPlay: () => Promise<void>;
+  resumePlay: () => Promise<void>;
+  pausePlay: () => Promise<void>;
+  stepPlay: () => Promise<void>;
+  decideProposal: (proposalId: string, verdict: "approve" | "reject") => Promise<void>;
   startSimulatedPlay: () => void;
   sellWass: () => Promise<void>;
 }
 
-export function useAutonomousPlayer(): UseAutonomousPlayerResult {
+export function useAutonomousPlayer(playerId?: string): UseAutonomousPlayerResult {
   const [status, setStatus] = useState<AutonomousPlayerStatus | null>(null);
   const [events, setEvents] = useState<GameLoopEvent[]>([]);
   const [currentCards, setCurrentCards] = useState<CurrentCards | null>(null);
@@ -66,9 +94,14 @@ export function useAutonomousPlayer(): UseAutonomousPlayerResult {
   const [error, setError] = useState<string | null>(null);
   const [walletInfo, setWalletInfo] = useState<{ address: string; balance: number; wAssBalance: number } | null>(null);
   const [isSelling, setIsSelling] = useState(false);
+  const [players, setPlayers] = useState<PlayerSummary[]>([]);
+  const [ledger, setLedger] = useState<LedgerSummary | null>(null);
   const eventSourceRef = useRef<EventSource | null>(null);
   const simulationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Selects the player on GET endpoints; POST bodies carry `player`
+  const playerQuery = playerId ? `?player=${encodeURIComponent(playerId)}` : "";
+
   /**
    * Generate random card
    */
@@ -427,6 +460,22 @@ export function useAutonomousPlayer(): UseAutonomousPlayerResult {
     }, timeElapsed);
   }, [status, currentCards]);
 
+  /**
+   * Fetch realized P&L totals (all players unless one is selected)
+   */
+  const fetchLedger = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/autonomous/ledger${playerQuery}`);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const data = await response.json();
+      setLedger(data.summary);
+    } catch (error) {
+      console.error("Failed to fetch ledger:", error);
+    }
+  }, [playerQuery]);
+
   /**
    * Connect to SSE stream for real-time updates
    */
@@ -437,7 +486,7 @@ export function useAutonomousPlayer(): UseAutonomousPlayerResult {
 
     console.log("📡 Connecting to event stream...");
 
-    const eventSource = new EventSource("/api/autonomous/stream");
+    const eventSource = new EventSource(`/api/autonomous/stream${playerQuery}`);
 
     eventSource.onmessage = (event) => {
       try {
@@ -456,6 +505,14 @@ export function useAutonomousPlayer(): UseAutonomousPlayerResult {
             dealerTotal: data.data.dealerTotal || 0,
           });
           setEvents((prev) => [...prev.slice(-50), data]);
+        } else if (data.type === "proposal" || data.type === "proposal_resolved") {
+          // Show or clear the pending proposal without waiting for the next status update
+          const pendingProposal = data.type === "proposal" ? data.data : null;
+          setStatus((prev) => (prev ? { ...prev, pendingProposal } : prev));
+          setEvents((prev) => [...prev.slice(-50), data]);
+        } else if (data.type === "ledger_update") {
+          // Refresh totals; the entry itself is too noisy for the action log
+          fetchLedger();
         } else if (data.type === "game_complete") {
           // Store last game result with final cards, then clear current cards
           setLastGameResult({
@@ -487,7 +544,7 @@ export function useAutonomousPlayer(): UseAutonomousPlayerResult {
     };
 
     eventSourceRef.current = eventSource;
-  }, []);
+  }, [playerQuery, fetchLedger]);
 
   /**
    * Fetch stats directly from blockchain
@@ -495,7 +552,7 @@ export function useAutonomousPlayer(): UseAutonomousPlayerResult {
   const fetchStats = useCallback(async () => {
     try {
       console.log("📊 Fetching stats from blockchain...");
-      const response = await fetch("/api/stats");
+      const response = await fetch(`/api/stats${playerQuery}`);
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}`);
       }
@@ -515,14 +572,14 @@ export function useAutonomousPlayer(): UseAutonomousPlayerResult {
       console.error("Failed to fetch stats:", error);
       setError(error instanceof Error ? error.message : "Unknown error");
     }
-  }, []);
+  }, [playerQuery]);
 
   /**
    * Fetch current status
    */
   const fetchStatus = useCallback(async () => {
     try {
-      const response = await fetch("/api/autonomous");
+      const response = await fetch(`/api/autonomous${playerQuery}`);
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}`);
       }
@@ -544,14 +601,14 @@ export function useAutonomousPlayer(): UseAutonomousPlayerResult {
       
       return null;
     }
-  }, []);
+  }, [playerQuery]);
 
   /**
    * Fetch wallet info
    */
   const fetchWalletInfo = useCallback(async () => {
     try {
-      const response = await fetch("/api/wallet");
+      const response = await fetch(`/api/wallet${playerQuery}`);
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}`);
       }
@@ -566,6 +623,22 @@ export function useAutonomousPlayer(): UseAutonomousPlayerResult {
     } catch (error) {
       console.error("Failed to fetch wallet info:", error);
     }
+  }, [playerQuery]);
+
+  /**
+   * Fetch the configured player wallets
+   */
+  const fetchPlayers = useCallback(async () => {
+    try {
+      const response = await fetch("/api/autonomous/players");
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const data = await response.json();
+      setPlayers(data.players || []);
+    } catch (error) {
+      console.error("Failed to fetch players:", error);
+    }
   }, []);
 
   /**
@@ -605,7 +678,7 @@ export function useAutonomousPlayer(): UseAutonomousPlayerResult {
   /**
    * Start autonomous play
    */
-  const startPlay = useCallback(async () => {
+  const startPlay = useCallback(async (strategy?: StrategyName, session?: SessionConfig) => {
     setIsStarting(true);
     setError(null);
 
@@ -613,7 +686,7 @@ export function useAutonomousPlayer(): UseAutonomousPlayerResult {
       const response = await fetch("/api/autonomous", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "start" }),
+        body: JSON.stringify({ action: "start", player: playerId, strategy, session }),
       });
 
       if (!response.ok) {
@@ -629,7 +702,89 @@ export function useAutonomousPlayer(): UseAutonomousPlayerResult {
     } finally {
       setIsStarting(false);
     }
-  }, [fetchStatus]);
+  }, [fetchStatus, playerId]);
+
+  /**
+   * Resume paused play, or the session interrupted by a server restart
+   */
+  const resumePlay = useCallback(async () => {
+    setIsStarting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/autonomous", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "resume", player: playerId }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `HTTP ${response.status}`);
+      }
+
+      console.log("✅ Autonomous play resumed");
+      await fetchStatus();
+    } catch (error) {
+      console.error("Failed to resume:", error);
+      setError(error instanceof Error ? error.message : "Unknown error");
+    } finally {
+      setIsStarting(false);
+    }
+  }, [fetchStatus, playerId]);
+
+  /**
+   * Send a pause or step control
+   */
+  const sendControl = useCallback(async (action: "pause" | "step") => {
+    setError(null);
+
+    try {
+      const response = await fetch("/api/autonomous", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, player: playerId }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `HTTP ${response.status}`);
+      }
+
+      await fetchStatus();
+    } catch (error) {
+      console.error(`Failed to ${action}:`, error);
+      setError(error instanceof Error ? error.message : "Unknown error");
+    }
+  }, [fetchStatus, playerId]);
+
+  const pausePlay = useCallback(() => sendControl("pause"), [sendControl]);
+  const stepPlay = useCallback(() => sendControl("step"), [sendControl]);
+
+  /**
+   * Approve or reject the pending proposal
+   */
+  const decideProposal = useCallback(async (proposalId: string, verdict: "approve" | "reject") => {
+    setError(null);
+
+    try {
+      const response = await fetch("/api/autonomous/approval", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ proposalId, verdict, player: playerId }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `HTTP ${response.status}`);
+      }
+
+      await fetchStatus();
+    } catch (error) {
+      console.error(`Failed to ${verdict} proposal:`, error);
+      setError(error instanceof Error ? error.message : "Unknown error");
+    }
+  }, [fetchStatus, playerId]);
 
   /**
    * Stop autonomous play
@@ -642,7 +797,7 @@ export function useAutonomousPlayer(): UseAutonomousPlayerResult {
       const response = await fetch("/api/autonomous", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "stop" }),
+        body: JSON.stringify({ action: "stop", player: playerId }),
       });
 
       if (!response.ok) {
@@ -658,16 +813,19 @@ export function useAutonomousPlayer(): UseAutonomousPlayerResult {
     } finally {
       setIsStopping(false);
     }
-  }, [fetchStatus]);
+  }, [fetchStatus, playerId]);
 
   /**
    * Initialize on mount
    */
   useEffect(() => {
-    // Reset all loading states on mount
+    // Reset all loading states on mount (and when switching players)
     setIsStarting(false);
     setIsStopping(false);
     setIsSelling(false);
+    setEvents([]);
+    setCurrentCards(null);
+    setLastGameResult(null);
     
     // Check for existing running process on page load
     fetchStatus().then((currentStatus) => {
@@ -680,8 +838,10 @@ export function useAutonomousPlayer(): UseAutonomousPlayerResult {
 
     // Fetch stats immediately from blockchain
     fetchStats();
-    // Fetch wallet info
+    // Fetch wallet info, P&L and the other player wallets
     fetchWalletInfo();
+    fetchLedger();
+    fetchPlayers();
     // Connect to SSE stream for real-time updates (will send status)
     connectToStream();
 
@@ -691,7 +851,7 @@ export function useAutonomousPlayer(): UseAutonomousPlayerResult {
         eventSourceRef.current = null;
       }
     };
-  }, [fetchStats, fetchWalletInfo, connectToStream, fetchStatus]);
+  }, [fetchStats, fetchWalletInfo, fetchLedger, fetchPlayers, connectToStream, fetchStatus]);
 
   return {
     status,
@@ -704,8 +864,14 @@ export function useAutonomousPlayer(): UseAutonomousPlayerResult {
     isSelling,
     error,
     walletInfo,
+    players,
+    ledger,
     startPlay,
     stopPlay,
+    resumePlay,
+    pausePlay,
+    stepPlay,
+    decideProposal,
     startSimulatedPlay,
     sellWass,
   };
@@ -6,7 +6,7 @@
 
 "use client";
 
-import { GameLoopEvent } from "@/lib/game-loop";
+import { DecisionRecord, GameLoopEvent } from "@/lib/game-loop";
 import { useEffect, useRef } from "react";
 
 interface ActionLogProps {
@@ -17,14 +17,54 @@ const EVENT_ICONS: Record<string, string> = {
   state_change: "🔄",
   initial_deal: "🎴",
   decision: "🤔",
+  override: "🛡️",
+  session_started: "🎬",
+  session_resumed: "♻️",
+  session_progress: "📈",
+  session_complete: "📋",
   game_complete: "🏁",
+  game_cancelled: "🧯",
+  paused: "⏸️",
+  resumed: "▶️",
+  step: "⏭️",
+  holding: "✋",
+  proposal: "🙋",
+  proposal_resolved: "🧑‍⚖️",
   winnings_claimed: "💰",
+  claim_sweep: "🧹",
+  dry_run: "🧪",
   stats_update: "📊",
   error: "❌",
   connected: "📡",
   status_update: "ℹ️",
 };
 
+/**
+ * EV comparison for a decision, highlighting deviations from optimal play
+ */
+function DecisionEV({ record }: { record: DecisionRecord }) {
+  const formatEV = (ev: number | null) => (ev === null ? "n/a" : `${ev >= 0 ? "+" : ""}${ev.toFixed(3)}`);
+  const cards = (hand: DecisionRecord["playerCards"]) => hand.map((c) => c.rank).join(" ");
+
+  return (
+    <div className="text-xs mt-1 flex flex-wrap gap-x-3">
+      <span className={record.action === "hit" ? "text-white" : "text-gray-500"}>Hit EV {formatEV(record.evHit)}</span>
+      <span className={record.action === "stand" ? "text-white" : "text-gray-500"}>Stand EV {formatEV(record.evStand)}</span>
+      <span className="text-gray-500">
+        [{cards(record.playerCards)}] vs [{cards(record.dealerCards)}]
+      </span>
+      {record.overridden && <span className="text-yellow-400">🛡️ overridden</span>}
+      {record.deviated ? (
+        <span className="text-red-400">
+          ⚠️ deviated from optimal {record.optimalAction.toUpperCase()} (-{record.evCost.toFixed(3)} EV)
+        </span>
+      ) : (
+        <span className="text-green-400">✓ optimal</span>
+      )}
+    </div>
+  );
+}
+
 export function ActionLog({ events }: ActionLogProps) {
   const logRef = useRef<HTMLDivElement>(null);
 
@@ -50,14 +90,63 @@ export function ActionLog({ events }: ActionLogProps) {
         return event.data.message || `Player: ${event.data.playerTotal}, Dealer: ${event.data.dealerTotal}`;
 
       case "decision":
-        return event.data.message || `${event.data.action?.toUpperCase()} (Player: ${event.data.playerTotal}, Dealer: ${event.data.dealerTotal})`;
+        if (event.data.message) return event.data.message;
+        const confidence = event.data.confidence !== undefined ? `, ${Math.round(event.data.confidence * 100)}% confident` : "";
+        const rationale = event.data.rationale ? ` - ${event.data.rationale}` : "";
+        return `${event.data.action?.toUpperCase()} via ${event.data.strategy} (Player: ${event.data.playerTotal}, Dealer: ${event.data.dealerTotal}${confidence})${rationale}`;
+
+      case "override":
+        return `Guardrail: ${event.data.originalAction?.toUpperCase()} → ${event.data.action?.toUpperCase()} (${event.data.strategy} gave up ${event.data.evCost?.toFixed(3)} EV, threshold ${event.data.threshold})`;
+
+      case "session_started":
+        return `Session ${event.data.id?.slice(0, 8)} started (${JSON.stringify(event.data.config)})`;
+
+      case "session_resumed":
+        return `Session ${event.data.id?.slice(0, 8)} resumed after ${event.data.gamesPlayed} games`;
+
+      case "session_progress":
+      case "session_complete": {
+        const progress = `${event.data.gamesPlayed} games, ${event.data.wins}W/${event.data.losses}L/${event.data.pushes}P, net ${event.data.netEth?.toFixed(6)} ETH`;
+        return event.type === "session_complete" ? `Session ended (${event.data.stopReason}): ${progress}` : progress;
+      }
 
       case "game_complete":
         return event.data.message || `${event.data.result} - ${event.data.status}`;
 
+      case "game_cancelled":
+        return `Game ${event.data.gameId} cancelled while ${event.data.reason || event.data.abandonedState} (VRF timed out)`;
+
+      case "paused":
+        return "Pause requested, holding at the next decision";
+
+      case "resumed":
+        return "Resumed";
+
+      case "step":
+        return "Stepping one decision";
+
+      case "holding":
+        return `Paused before ${event.data.point}${event.data.gameId ? ` (game ${event.data.gameId})` : ""}`;
+
+      case "proposal":
+        return event.data.action === "start"
+          ? `Awaiting approval to start a game (${event.data.amountWei} wei)`
+          : `Awaiting approval to ${event.data.action.toUpperCase()} on ${event.data.playerTotal} vs ${event.data.dealerTotal} (EV ${event.data.ev?.toFixed(3)})`;
+
+      case "proposal_resolved":
+        return `${event.data.proposal.action.toUpperCase()} ${event.data.verdict} by ${event.data.decidedBy}` +
+          (event.data.action && event.data.action !== event.data.proposal.action ? `, playing ${event.data.action.toUpperCase()}` : "");
+
       case "winnings_claimed":
         return event.data.message || `Game ${event.data.gameId}: ${event.data.amount} wei`;
 
+      case "claim_sweep":
+        return `Swept ${event.data.gamesChecked} games: ${event.data.claimed.length} claimed (${event.data.totalClaimedWei} wei)` +
+          (event.data.failed.length > 0 ? `, ${event.data.failed.length} failed` : "");
+
+      case "dry_run":
+        return `Dry run: ${event.data.action} would succeed at block ${event.data.blockNumber}, nothing sent`;
+
       case "error":
         return event.data.error || event.data.message || "Unknown error";
 
@@ -89,6 +178,7 @@ export function ActionLog({ events }: ActionLogProps) {
               <span className="font-semibold text-blue-400">{event.type}</span>
             </div>
             <div className="text-xs text-gray-400 mt-1 break-words">{formatEventData(event)}</div>
+            {event.type === "decision" && event.data?.evStand !== undefined && <DecisionEV record={event.data} />}
           </div>
         </div>
       ))}
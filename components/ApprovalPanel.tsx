@@ -0,0 +1,88 @@
+/**
+ * Approval Panel
+ *
+ * Shows the proposal waiting for operator approval with approve/reject buttons
+ * and the time left before the default policy applies.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatEther } from "viem";
+import type { Proposal } from "@/lib/approval";
+import { FRESH_HAND_EV } from "@/lib/decision-strategy";
+
+interface ApprovalPanelProps {
+  proposal: Proposal;
+  onDecide: (proposalId: string, verdict: "approve" | "reject") => Promise<void>;
+}
+
+export function ApprovalPanel({ proposal, onDecide }: ApprovalPanelProps) {
+  const [now, setNow] = useState(Date.now());
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const secondsLeft = Math.max(0, Math.ceil((proposal.expiresAt - now) / 1000));
+  const formatEV = (ev: number | null) => (ev === null ? "n/a" : `${ev >= 0 ? "+" : ""}${ev.toFixed(3)}`);
+
+  const decide = async (verdict: "approve" | "reject") => {
+    setIsSending(true);
+    try {
+      await onDecide(proposal.id, verdict);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-pink-900/30 rounded-lg p-6 mb-8 border border-pink-700">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold mb-2">
+            🙋 Approve {proposal.action.toUpperCase()}?
+            {proposal.gameId && <span className="text-gray-400 text-sm"> (game {proposal.gameId})</span>}
+          </h2>
+          {proposal.action === "start" ? (
+            <p className="text-gray-300 text-sm">
+              Bet: {proposal.amountWei ? formatEther(BigInt(proposal.amountWei)) : "?"} ETH · EV per hand{" "}
+              {formatEV(proposal.ev)}
+              {proposal.strategy !== "optimal" && <> (optimal play {formatEV(FRESH_HAND_EV.optimal ?? null)})</>}
+            </p>
+          ) : (
+            <p className="text-gray-300 text-sm">
+              Player {proposal.playerTotal} vs dealer {proposal.dealerTotal} · EV hit {formatEV(proposal.evHit)} · EV
+              stand {formatEV(proposal.evStand)} · optimal {proposal.optimalAction?.toUpperCase()}
+              {proposal.optimalAction !== proposal.action && <span className="text-yellow-400"> (deviates)</span>}
+            </p>
+          )}
+          {proposal.rationale && <p className="text-gray-400 text-sm mt-1 italic">{proposal.rationale}</p>}
+          <p className="text-gray-400 text-xs mt-1">
+            {proposal.strategy} strategy · default policy applies in {secondsLeft}s
+          </p>
+        </div>
+
+        <div className="flex gap-4">
+          <button
+            onClick={() => decide("approve")}
+            disabled={isSending}
+            className="px-6 py-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg font-semibold transition-colors"
+          >
+            ✓ Approve
+          </button>
+          <button
+            onClick={() => decide("reject")}
+            disabled={isSending || !proposal.rejectable}
+            title={proposal.rejectable ? undefined : "The other action isn't allowed here"}
+            className="px-6 py-3 bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg font-semibold transition-colors"
+          >
+            ✗ Reject
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -6,14 +6,23 @@
 
 "use client";
 
+import { useState } from "react";
 import { useAutonomousPlayer } from "@/app/hooks/useAutonomousPlayer";
+import { DEFAULT_STRATEGY, STRATEGY_NAMES } from "@/lib/decision-strategy";
+import type { StrategyName } from "@/lib/decision-strategy";
 import { StateMachine } from "./StateMachine";
 import { GameStats as StatsDisplay } from "./GameStats";
 import { ActionLog } from "./ActionLog";
 import { CardDisplay } from "./CardDisplay";
+import { ApprovalPanel } from "./ApprovalPanel";
+import { LedgerSummary } from "./LedgerSummary";
 
 export function GameDashboard() {
-  const { status, events, currentCards, lastGameResult, isStarting, isStopping, isSelling, error, walletInfo, startPlay, stopPlay, startSimulatedPlay, sellWass } = useAutonomousPlayer();
+  const [playerId, setPlayerId] = useState<string | undefined>(undefined);
+  const { status, events, currentCards, lastGameResult, isStarting, isStopping, isSelling, error, walletInfo, players, ledger, startPlay, stopPlay, resumePlay, pausePlay, stepPlay, decideProposal, startSimulatedPlay, sellWass } = useAutonomousPlayer(playerId);
+
+  const [strategy, setStrategy] = useState<StrategyName>(DEFAULT_STRATEGY);
+  const [maxGames, setMaxGames] = useState(1);
 
   const betAmount = process.env.NEXT_PUBLIC_BET_AMOUNT || "0.0007";
 
@@ -57,22 +66,112 @@ export function GameDashboard() {
                 </>
               )}
               {status?.isRunning && (
-                <p className="text-green-400 text-sm mt-1">● Running</p>
+                <p className="text-green-400 text-sm mt-1">
+                  ● Running{status.strategy && ` (${status.strategy} strategy)`}
+                  {status.paused && <span className="text-yellow-400"> - paused</span>}
+                </p>
+              )}
+              {status?.dryRun && (
+                <p className="text-blue-400 text-sm mt-1">🧪 Dry run: transactions are simulated, never sent</p>
+              )}
+              {status?.session && (
+                <p className="text-gray-400 text-sm mt-1">
+                  Session {status.session.id.slice(0, 8)}: {status.session.gamesPlayed}
+                  {status.session.config.maxGames !== undefined && `/${status.session.config.maxGames}`} games
+                  {" "}({status.session.wins}W/{status.session.losses}L/{status.session.pushes}P), net{" "}
+                  <span className={status.session.netEth >= 0 ? "text-green-400" : "text-red-400"}>
+                    {status.session.netEth >= 0 ? "+" : ""}{status.session.netEth.toFixed(6)} ETH
+                  </span>
+                </p>
               )}
               {!status?.isRunning && status !== null && (
                 <p className="text-gray-500 text-sm mt-1">○ Stopped</p>
               )}
+              {status?.resumable && (
+                <p className="text-yellow-400 text-sm mt-1">
+                  Interrupted session {status.resumable.sessionId.slice(0, 8)} after {status.resumable.gamesPlayed} games
+                </p>
+              )}
             </div>
 
             <div className="flex gap-4">
+              {players.length > 1 && (
+                <select
+                  value={playerId ?? status?.playerId ?? ""}
+                  onChange={(e) => setPlayerId(e.target.value)}
+                  className="px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg font-semibold"
+                >
+                  {players.map((player) => (
+                    <option key={player.playerId} value={player.playerId}>
+                      Wallet: {player.address.slice(0, 6)}…{player.address.slice(-4)}
+                      {player.isRunning ? (player.paused ? " (paused)" : " (running)") : ""}
+                    </option>
+                  ))}
+                </select>
+              )}
+
+              <select
+                value={strategy}
+                onChange={(e) => setStrategy(e.target.value as StrategyName)}
+                disabled={status?.isRunning}
+                className="px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg font-semibold disabled:cursor-not-allowed"
+              >
+                {STRATEGY_NAMES.map((name) => (
+                  <option key={name} value={name}>
+                    Strategy: {name}
+                  </option>
+                ))}
+              </select>
+
+              <label className="flex items-center gap-2 px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg font-semibold">
+                Games:
+                <input
+                  type="number"
+                  min={1}
+                  value={maxGames}
+                  onChange={(e) => setMaxGames(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                  disabled={status?.isRunning}
+                  className="w-16 bg-transparent disabled:cursor-not-allowed"
+                />
+              </label>
+
               <button
-                onClick={startPlay}
+                onClick={() => startPlay(strategy, { maxGames })}
                 disabled={isStarting || isStopping || status?.isRunning}
                 className="px-6 py-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg font-semibold transition-colors"
               >
                 {isStarting ? "Starting..." : "▶ Start Autonomous Play"}
               </button>
 
+              {status?.resumable && (
+                <button
+                  onClick={resumePlay}
+                  disabled={isStarting || isStopping || status.isRunning}
+                  className="px-6 py-3 bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg font-semibold transition-colors"
+                >
+                  {isStarting ? "Resuming..." : "♻ Resume Session"}
+                </button>
+              )}
+
+              {status?.isRunning && (
+                <>
+                  <button
+                    onClick={status.paused ? resumePlay : pausePlay}
+                    className="px-6 py-3 bg-yellow-600 hover:bg-yellow-700 rounded-lg font-semibold transition-colors"
+                  >
+                    {status.paused ? "▶ Resume" : "⏸ Pause"}
+                  </button>
+
+                  <button
+                    onClick={stepPlay}
+                    disabled={!status.paused}
+                    className="px-6 py-3 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed rounded-lg font-semibold transition-colors"
+                  >
+                    ⏭ Step
+                  </button>
+                </>
+              )}
+
               <button
                 onClick={stopPlay}
                 disabled={isStopping}
@@ -111,6 +210,9 @@ export function GameDashboard() {
           )}
         </div>
 
+        {/* Proposal waiting for operator approval */}
+        {status?.pendingProposal && <ApprovalPanel proposal={status.pendingProposal} onDecide={decideProposal} />}
+
         {/* Cards Display - Current Game or Last Result */}
         {currentCards && (
           <div className="mb-8">
@@ -170,8 +272,16 @@ export function GameDashboard() {
             {/* Statistics */}
             <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
               <h2 className="text-xl font-semibold mb-4">Statistics</h2>
-              {status && <StatsDisplay stats={status.stats} />}
+              {status && <StatsDisplay stats={status.stats} session={status.session?.decisionStats} />}
             </div>
+
+            {/* Profit and Loss */}
+            {ledger && ledger.games > 0 && (
+              <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+                <h2 className="text-xl font-semibold mb-4">Profit &amp; Loss</h2>
+                <LedgerSummary summary={ledger} allPlayers={!playerId && players.length > 1} />
+              </div>
+            )}
           </div>
 
           {/* Right Column - Action Log */}
@@ -6,13 +6,14 @@
 
 "use client";
 
-import { GameStats as GameStatsType } from "@/lib/game-loop";
+import { GameStats as GameStatsType, SessionStats } from "@/lib/game-loop";
 
 interface GameStatsProps {
   stats?: GameStatsType;
+  session?: SessionStats;
 }
 
-export function GameStats({ stats }: GameStatsProps) {
+export function GameStats({ stats, session }: GameStatsProps) {
   // Provide default values if stats is undefined
   const safeStats = stats || {
     gamesPlayed: 0,
@@ -65,6 +66,16 @@ export function GameStats({ stats }: GameStatsProps) {
           <div className="text-xs text-gray-400">Busts</div>
         </div>
       </div>
+
+      {/* Decision Quality (current run) */}
+      {session && session.decisions > 0 && (
+        <div className="bg-gray-900/50 rounded p-3 text-sm text-gray-400 flex flex-wrap gap-x-4">
+          <span>This run: {session.decisions} decisions</span>
+          <span>{session.deviations} deviations from optimal</span>
+          <span className="text-yellow-400">🛡️ {session.overrides} guardrail overrides</span>
+          {session.overrides > 0 && <span>{session.evSaved.toFixed(3)} EV saved</span>}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,52 @@
+/**
+ * Ledger Summary
+ *
+ * Realized P&L from the ledger: ETH paid in and gas (paid and sponsored), wASS staked and returned,
+ * and net results in both currencies.
+ */
+
+"use client";
+
+import type { LedgerSummary as LedgerSummaryType } from "@/lib/pnl-ledger";
+
+interface LedgerSummaryProps {
+  summary: LedgerSummaryType;
+  allPlayers?: boolean; // Totals span every wallet
+}
+
+export function LedgerSummary({ summary, allPlayers }: LedgerSummaryProps) {
+  const signed = (value: number, digits: number) => `${value >= 0 ? "+" : ""}${value.toFixed(digits)}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="bg-gray-900/50 rounded-lg p-4">
+          <div className={`text-3xl font-bold ${summary.pnlEth >= 0 ? "text-green-400" : "text-red-400"}`}>
+            {signed(summary.pnlEth, 6)}
+          </div>
+          <div className="text-sm text-gray-400">Realized P&L (ETH)</div>
+        </div>
+
+        <div className="bg-gray-900/50 rounded-lg p-4">
+          <div className={`text-3xl font-bold ${summary.pnlWass >= 0 ? "text-green-400" : "text-red-400"}`}>
+            {signed(summary.pnlWass, 2)}
+          </div>
+          <div className="text-sm text-gray-400">Realized P&L (wASS)</div>
+        </div>
+      </div>
+
+      <div className="bg-gray-900/50 rounded p-3 text-sm text-gray-400 flex flex-wrap gap-x-4">
+        <span>
+          {summary.games} games{allPlayers && " (all wallets)"}
+        </span>
+        <span>{summary.ethIn.toFixed(6)} ETH paid in</span>
+        <span>{summary.gasCost.toFixed(6)} ETH gas</span>
+        {summary.sponsoredGasCost > 0 && <span>{summary.sponsoredGasCost.toFixed(6)} ETH gas sponsored</span>}
+        <span>
+          {summary.wassStaked.toFixed(2)} wASS staked, {summary.wassReturned.toFixed(2)} returned
+        </span>
+        {summary.wassFees > 0 && <span>{summary.wassFees.toFixed(2)} wASS claim fees</span>}
+      </div>
+    </div>
+  );
+}
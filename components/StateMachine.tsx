@@ -23,6 +23,8 @@ const STATE_COLORS: Record<GameLoopState, string> = {
   [GameLoopState.WAITING_HIT_VRF]: "bg-purple-600 animate-pulse",
   [GameLoopState.WAITING_STAND_VRF]: "bg-purple-600 animate-pulse",
   [GameLoopState.GAME_COMPLETE]: "bg-blue-500",
+  [GameLoopState.RECOVERING_STUCK_GAME]: "bg-yellow-600 animate-pulse",
+  [GameLoopState.AWAITING_APPROVAL]: "bg-pink-600 animate-pulse",
   [GameLoopState.ERROR]: "bg-red-600",
 };
 
@@ -37,6 +39,8 @@ const STATE_DESCRIPTIONS: Record<GameLoopState, string> = {
   [GameLoopState.WAITING_HIT_VRF]: "Waiting for hit card (VRF)",
   [GameLoopState.WAITING_STAND_VRF]: "Waiting for dealer play (VRF)",
   [GameLoopState.GAME_COMPLETE]: "Game complete",
+  [GameLoopState.RECOVERING_STUCK_GAME]: "VRF timed out - cancelling stuck game",
+  [GameLoopState.AWAITING_APPROVAL]: "Waiting for operator approval",
   [GameLoopState.ERROR]: "Error occurred",
 };
 
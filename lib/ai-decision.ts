@@ -1,28 +1,60 @@
 /**
  * AI Decision Engine
  *
- * Interfaces with the AI agent to make strategic hit/stand decisions.
+ * Interfaces with the LLM to make strategic hit/stand decisions.
  * This is the ONLY place where AI reasoning is used in autonomous play.
+ *
+ * Decisions use a zod-typed structured output and run with NO tools attached,
+ * so a decision prompt can never send a transaction.
  */
 
-import { generateText } from "ai";
-import { createAgent } from "../app/api/agent/create-agent";
-
-interface CardDisplay {
-  rank: string;
-  suit: string;
-  value: number;
-}
+import { generateObject } from "ai";
+import { openai } from "@ai-sdk/openai";
+import { z } from "zod";
+import { TableStrategy } from "./decision-strategy";
+import type { CardDisplay } from "./contract-types";
+import type { Decision, DecisionContext, DecisionStrategy, StrategyName } from "./decision-strategy";
 
 interface GameState {
-  playerCards: CardDisplay[];
+  playerCards: readonly CardDisplay[];
   playerTotal: number;
-  dealerCards: CardDisplay[];
+  dealerCards: readonly CardDisplay[];
   dealerTotal: number;
   canHit: boolean;
   canStand: boolean;
 }
 
+/**
+ * Schema for a structured hit/stand decision
+ */
+export const AIDecisionSchema = z
+  .object({
+    action: z.enum(["hit", "stand"]).describe("The action to take"),
+    confidence: z.number().min(0).max(1).describe("How confident you are in this action, from 0 to 1"),
+    rationale: z.string().max(280).describe("One or two sentences explaining the decision"),
+  })
+  .describe("A blackjack hit/stand decision");
+
+export type AIDecision = z.infer<typeof AIDecisionSchema>;
+
+const DECISION_SYSTEM_PROMPT = `
+You are a strategic Blackjack decision-making AI for autonomous gameplay on Base blockchain.
+You only decide whether to HIT or STAND; you never execute actions yourself.
+
+Rules of this table:
+- Single 52-card deck per game, no reshuffle during the hand
+- Both dealer cards are visible
+- Dealer draws to 17 and stands on all 17s
+- Hitting is not allowed at 21
+
+When deciding, analyze:
+1. Your current hand total vs the dealer's total
+2. Probability of busting if you hit
+3. Probability the dealer busts or beats you if you stand
+
+Give a calibrated confidence and a short rationale focused on the probabilities.
+`.trim();
+
 /**
  * Basic strategy fallback (used if AI fails)
  * Hit on 16 or below, stand on 17 or above
@@ -47,57 +79,52 @@ function formatGameState(state: GameState): string {
 - Can Hit: ${state.canHit}
 - Can Stand: ${state.canStand}
 
-Should you HIT or STAND? Respond with ONLY one word: "hit" or "stand".
+Should you HIT or STAND?
 `.trim();
 }
 
 /**
  * Ask AI to decide whether to hit or stand
- * Falls back to basic strategy if AI fails or is ambiguous
+ * Falls back to basic strategy (or the given fallback) if the AI call fails
  */
-export async function decideHitOrStand(gameState: GameState): Promise<"hit" | "stand"> {
+export async function decideHitOrStand(
+  gameState: GameState,
+  fallback: (state: GameState) => "hit" | "stand" = (state) => basicStrategy(state.playerTotal)
+): Promise<Decision> {
   try {
     console.log("\n🤖 Asking AI for strategic decision...");
     console.log(`Player: ${gameState.playerTotal}, Dealer: ${gameState.dealerTotal}`);
 
-    // Create the agent
-    const { system, model, tools } = await createAgent();
-
-    // Create AI prompt
-    const prompt = formatGameState(gameState);
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error("OPENAI_API_KEY is not set");
+    }
 
-    // Get AI response
-    const result = await generateText({
-      model,
-      tools,
-      system,
-      prompt,
-      maxSteps: 3, // Limit steps for quick decision
+    // No tools: the model can only return a decision object
+    const { object } = await generateObject({
+      model: openai("gpt-4o-mini"),
+      schema: AIDecisionSchema,
+      schemaName: "BlackjackDecision",
+      system: DECISION_SYSTEM_PROMPT,
+      prompt: formatGameState(gameState),
     });
 
-    const response = result.text.toLowerCase().trim();
-    console.log(`🤖 AI Response: "${response}"`);
-
-    // Parse response
-    if (response.includes("hit") && !response.includes("stand")) {
-      console.log("✅ AI Decision: HIT");
-      return "hit";
-    } else if (response.includes("stand")) {
-      console.log("✅ AI Decision: STAND");
-      return "stand";
-    } else {
-      // Ambiguous response, use fallback
-      console.log("⚠️  AI response unclear, using basic strategy fallback");
-      const decision = basicStrategy(gameState.playerTotal);
-      console.log(`✅ Fallback Decision: ${decision.toUpperCase()}`);
-      return decision;
+    if (object.action === "hit" && !gameState.canHit) {
+      console.log("⚠️  AI chose HIT but hitting is not allowed, standing instead");
+      return { ...object, action: "stand" };
     }
+
+    console.log(`✅ AI Decision: ${object.action.toUpperCase()} (confidence ${object.confidence.toFixed(2)})`);
+    console.log(`🤖 Rationale: ${object.rationale}`);
+    return object;
   } catch (error) {
     console.error("❌ AI decision failed:", error);
     console.log("⚠️  Using basic strategy fallback");
-    const decision = basicStrategy(gameState.playerTotal);
-    console.log(`✅ Fallback Decision: ${decision.toUpperCase()}`);
-    return decision;
+    const action = fallback(gameState);
+    console.log(`✅ Fallback Decision: ${action.toUpperCase()}`);
+    return {
+      action,
+      rationale: `AI decision failed (${error instanceof Error ? error.message : String(error)}), used fallback`,
+    };
   }
 }
 
@@ -108,8 +135,8 @@ export async function decideHitOrStand(gameState: GameState): Promise<"hit" | "s
 export async function getNextAction(
   playerTotal: number,
   dealerTotal: number,
-  playerCards: CardDisplay[],
-  dealerCards: CardDisplay[],
+  playerCards: readonly CardDisplay[],
+  dealerCards: readonly CardDisplay[],
   canHit: boolean,
   canStand: boolean
 ): Promise<"hit" | "stand"> {
@@ -122,5 +149,37 @@ export async function getNextAction(
     canStand,
   };
 
-  return await decideHitOrStand(gameState);
+  const decision = await decideHitOrStand(gameState);
+  return decision.action;
+}
+
+/**
+ * Strategy that asks the LLM for every decision
+ */
+export class AIStrategy implements DecisionStrategy {
+  readonly name: StrategyName = "ai";
+
+  async decide(context: DecisionContext): Promise<Decision> {
+    return await decideHitOrStand(context);
+  }
+}
+
+/**
+ * Rule table for clear-cut hands, LLM tiebreak for marginal cells
+ * Falls back to the table's own answer if the LLM fails
+ */
+export class HybridStrategy implements DecisionStrategy {
+  readonly name: StrategyName = "hybrid";
+  private table = new TableStrategy();
+
+  async decide(context: DecisionContext): Promise<Decision> {
+    const lookup = this.table.lookup(context);
+
+    if (!lookup.marginal) {
+      return { action: lookup.action };
+    }
+
+    console.log(`⚖️  Marginal table cell (table says ${lookup.action.toUpperCase()}), asking AI to break the tie...`);
+    return await decideHitOrStand(context, () => lookup.action);
+  }
 }
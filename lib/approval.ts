@@ -0,0 +1,124 @@
+/**
+ * Human-in-the-Loop Approval
+ *
+ * When enabled, the game loop proposes every start/hit/stand and waits for an
+ * operator to approve or reject it. If nobody answers before the timeout, the
+ * default policy decides. Rejecting a hit or stand plays the other action;
+ * rejecting a start ends the session. A stand at 21 can't be rejected, since
+ * the contract doesn't allow hitting there.
+ */
+
+import type { PlayerAction } from "./optimal-strategy";
+import type { StrategyName } from "./decision-strategy";
+
+export type ProposalAction = "start" | PlayerAction;
+
+// What happens when a proposal times out
+// "optimal" approves starts and replaces a hit/stand with the optimal action
+export type ApprovalPolicy = "approve" | "reject" | "optimal";
+
+export const APPROVAL_POLICIES: ApprovalPolicy[] = ["approve", "reject", "optimal"];
+
+export interface ApprovalConfig {
+  enabled: boolean;
+  timeoutSeconds: number;
+  defaultPolicy: ApprovalPolicy;
+}
+
+const DEFAULT_TIMEOUT_SECONDS = 60;
+const DEFAULT_POLICY: ApprovalPolicy = "optimal";
+
+export const DEFAULT_APPROVAL_CONFIG: ApprovalConfig = {
+  enabled: process.env.APPROVAL_ENABLED === "true",
+  timeoutSeconds: timeoutFromEnv(),
+  defaultPolicy: policyFromEnv(),
+};
+
+// A start/hit/stand waiting for the operator
+export interface Proposal {
+  id: string;
+  action: ProposalAction;
+  gameId: string | null;
+  amountWei: string | null; // Bet for a start
+  ev: number | null; // EV of the proposed action in bet units; for a start, of a fresh hand (null for LLM strategies)
+  evHit: number | null;
+  evStand: number | null;
+  optimalAction: PlayerAction | null;
+  strategy: StrategyName;
+  rationale?: string;
+  rejectable: boolean; // False when the other action isn't allowed (a stand at 21)
+  playerTotal: number | null;
+  dealerTotal: number | null;
+  proposedAt: number;
+  expiresAt: number;
+}
+
+export type ApprovalVerdict = "approved" | "rejected";
+
+// Payload of the `proposal_resolved` event
+export interface ProposalOutcome {
+  proposal: Proposal;
+  verdict: ApprovalVerdict;
+  decidedBy: "operator" | "timeout";
+  action: ProposalAction | null; // Action actually taken (null when a start was rejected)
+  decidedAt: number;
+}
+
+/**
+ * Validate approval options from an API request
+ * Returns an error message, or null if valid
+ */
+export function validateApprovalConfig(value: unknown): string | null {
+  if (typeof value !== "object" || value === null) {
+    return "approval must be an object";
+  }
+
+  const { enabled, timeoutSeconds, defaultPolicy } = value as Partial<ApprovalConfig>;
+  if (enabled !== undefined && typeof enabled !== "boolean") {
+    return "approval.enabled must be a boolean";
+  }
+  if (timeoutSeconds !== undefined && (typeof timeoutSeconds !== "number" || !(timeoutSeconds > 0))) {
+    return "approval.timeoutSeconds must be a positive number";
+  }
+  if (defaultPolicy !== undefined && !APPROVAL_POLICIES.includes(defaultPolicy)) {
+    return `approval.defaultPolicy must be one of: ${APPROVAL_POLICIES.join(", ")}`;
+  }
+
+  return null;
+}
+
+/**
+ * APPROVAL_TIMEOUT_SECONDS, or the default if it's unset or not a positive number
+ */
+function timeoutFromEnv(): number {
+  const raw = process.env.APPROVAL_TIMEOUT_SECONDS;
+  if (!raw) {
+    return DEFAULT_TIMEOUT_SECONDS;
+  }
+
+  const timeoutSeconds = Number(raw);
+  if (!(timeoutSeconds > 0) || !Number.isFinite(timeoutSeconds)) {
+    console.warn(`⚠️  Invalid APPROVAL_TIMEOUT_SECONDS "${raw}", using ${DEFAULT_TIMEOUT_SECONDS}`);
+    return DEFAULT_TIMEOUT_SECONDS;
+  }
+  return timeoutSeconds;
+}
+
+/**
+ * APPROVAL_DEFAULT_POLICY, or "optimal" if it's unset or not a known policy
+ * (an unknown value must never fall through to approving every bet)
+ */
+function policyFromEnv(): ApprovalPolicy {
+  const raw = process.env.APPROVAL_DEFAULT_POLICY;
+  if (!raw) {
+    return DEFAULT_POLICY;
+  }
+
+  if (!APPROVAL_POLICIES.includes(raw as ApprovalPolicy)) {
+    console.warn(
+      `⚠️  Invalid APPROVAL_DEFAULT_POLICY "${raw}" (use ${APPROVAL_POLICIES.join(", ")}), using ${DEFAULT_POLICY}`
+    );
+    return DEFAULT_POLICY;
+  }
+  return raw as ApprovalPolicy;
+}
@@ -1,33 +1,110 @@
 /**
- * Autonomous Player Manager
+ * Autonomous Player
  *
- * Singleton class that manages continuous autonomous blackjack gameplay.
+ * Manages continuous autonomous blackjack gameplay for one wallet.
  * Coordinates game loop, RPC client, and event streaming.
+ * One instance per wallet is kept by the PlayerManager (player-manager.ts).
  */
 
 import { createRPCClient } from "./rpc-client-factory";
-import type { BlackjackRPCClient } from "./rpc-client";
-import { GameLoop, GameLoopState } from "./game-loop";
-import type { GameLoopEvent, GameStats } from "./game-loop";
+import { DRY_RUN } from "./rpc-client";
+import type { BlackjackRPCClient, SimulationReport } from "./rpc-client";
+import { DRY_RUN_STOP, GameLoop, GameLoopState, GameResult, START_REJECTED } from "./game-loop";
+import type { DecisionRecord, GameLoopEvent, GameStats } from "./game-loop";
+import { appendDecision } from "./decision-log";
+import { appendLedgerEntry, entryFromTransaction, readGameLedgers, refundEntry, summarizeLedger } from "./pnl-ledger";
+import type { LedgerEntry } from "./pnl-ledger";
+import { createDecisionStrategy } from "./decision-strategy-factory";
+import { DEFAULT_STRATEGY } from "./decision-strategy";
+import type { StrategyName } from "./decision-strategy";
+import { DEFAULT_GUARDRAIL_CONFIG } from "./guardrail";
+import type { GuardrailConfig } from "./guardrail";
+import { GameSession } from "./session";
+import type { SessionConfig, SessionProgress, SessionStopReason } from "./session";
+import type { ApprovalConfig, ApprovalVerdict, Proposal } from "./approval";
+import { DEFAULT_APPROVAL_CONFIG } from "./approval";
+import { GameJournal, journalFileFor } from "./game-journal";
+import { ClaimSweeper, CLAIM_SWEEP_INTERVAL_MINUTES, claimSweepFileFor } from "./claim-sweeper";
+import type { ClaimSweepReport, ClaimSweepTotals } from "./claim-sweeper";
+import type { PendingTransaction } from "./game-journal";
+import { getRpcHealth } from "./chain-reader";
+import eventIndexer, { INDEXER_ENABLED } from "./event-indexer";
+import type { RpcEndpointHealth } from "./rpc-pool";
 
 export interface AutonomousPlayerStatus {
+  playerId: string;
+  address: string;
   isRunning: boolean;
   currentState: GameLoopState;
   stats: GameStats;
   currentGameId: bigint | null;
   error: string | null;
+  strategy: StrategyName;
+  session: SessionProgress | null; // Current or most recent session
+  guardrail: GuardrailConfig;
+  paused: boolean;
+  approval: ApprovalConfig;
+  pendingProposal: Proposal | null;
+  resumable: ResumableSession | null;
+  claimSweep: ClaimSweepStatus | null; // null until the player has been initialized
+  rpc: RpcEndpointHealth[]; // Read endpoints, healthiest first (shared by all players)
+  dryRun: boolean; // DRY_RUN: the session's first transaction is simulated and reported, never sent
+  simulations: SimulationReport[]; // Recent pre-flight simulations, newest first
+}
+
+export interface ClaimSweepStatus {
+  sweeping: boolean;
+  totals: ClaimSweepTotals;
+  lastReport: ClaimSweepReport | null;
+}
+
+// Unfinished session left in the journal by a crash or reload
+export interface ResumableSession {
+  sessionId: string;
+  gamesPlayed: number;
+  savedAt: number;
+  pendingTx: PendingTransaction | null;
+}
+
+export interface StartOptions {
+  strategy?: StrategyName;
+  guardrail?: Partial<GuardrailConfig>;
+  session?: SessionConfig;
+  restartAfterCancel?: boolean; // Start a fresh game after cancelling a stuck one
+  approval?: Partial<ApprovalConfig>;
 }
 
 /**
- * Singleton Autonomous Player
+ * Autonomous player bound to a single wallet
  */
-class AutonomousPlayerInstance {
+export class AutonomousPlayerInstance {
+  readonly id: string; // Lowercased wallet address
+  private address: string;
   private rpcClient: BlackjackRPCClient | null = null;
   private gameLoop: GameLoop | null = null;
   private isRunning = false;
   private currentError: string | null = null;
+  private session: GameSession | null = null;
+  private claimSweeper: ClaimSweeper | null = null;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private refundBooking: Promise<void> = Promise.resolve(); // Last natural's refund lookup
+  private sessionRun: Promise<void> = Promise.resolve(); // Current or last session loop, settles once it has exited
+  private journal: GameJournal;
   private eventListeners: Array<(event: GameLoopEvent) => void> = [];
 
+  constructor(address: string) {
+    this.address = address;
+    this.id = address.toLowerCase();
+    this.journal = new GameJournal(journalFileFor(address));
+  }
+
+  /**
+   * Wallet address this player plays from
+   */
+  getAddress(): string {
+    return this.address;
+  }
+
   /**
    * Check if the game should stop (called by GameLoop during long operations)
    */
@@ -47,44 +124,56 @@ class AutonomousPlayerInstance {
       return; // Already initialized
     }
 
-    console.log("🎰 Initializing Autonomous Blackjack Player...");
+    console.log(`🎰 Initializing Autonomous Blackjack Player for ${this.address}...`);
 
     try {
       // Create RPC client
-      this.rpcClient = await createRPCClient();
+      this.rpcClient = await createRPCClient(this.address);
       console.log("✅ RPC Client initialized");
 
       // Create game loop with historical stats from contract and stop check
       this.gameLoop = await GameLoop.create(this.rpcClient, () => this.shouldStop());
       console.log("✅ Game Loop initialized");
 
-      // Forward events to listeners
-      // EventEmitter emits events with (eventName, ...args) signature
-      const forwardEvent = (eventType: string, data?: any) => {
-        const event: GameLoopEvent = {
-          type: eventType,
-          state: this.gameLoop?.getState() || GameLoopState.IDLE,
-          data,
-          timestamp: Date.now(),
-        };
-        
-        this.eventListeners.forEach((listener) => {
-          try {
-            listener(event);
-          } catch (error) {
-            console.error("Event listener error:", error);
+      // Pick up where the last process left off
+      const saved = this.journal.get();
+      if (saved.loop) {
+        this.gameLoop.restore(saved.loop);
+      }
+
+      // Journal in-flight transactions so a restart doesn't resend a mined one,
+      // and book what each settled one cost or paid out
+      this.rpcClient.setTransactionObserver({
+        onPending: (action, userOpHash) =>
+          this.journal.checkpoint({ pendingTx: { action, userOpHash, sentAt: Date.now() } }),
+        onSettled: (result) => {
+          this.journal.checkpoint({ pendingTx: null });
+          const entry = entryFromTransaction(this.id, this.gameLoop?.getCurrentGameId() ?? null, result);
+          if (entry) {
+            this.recordLedgerEntry(entry);
           }
-        });
-      };
+          // Count gas against the session's paymaster budget
+          if (result.gas && this.session && !this.session.isFinished()) {
+            this.session.recordGas(result.gas);
+            this.checkpoint();
+          }
+        },
+      });
 
-      // Listen to all game loop events
-      this.gameLoop.on("state_change", (data) => forwardEvent("state_change", data));
-      this.gameLoop.on("initial_deal", (data) => forwardEvent("initial_deal", data));
-      this.gameLoop.on("decision", (data) => forwardEvent("decision", data));
-      this.gameLoop.on("game_complete", (data) => forwardEvent("game_complete", data));
-      this.gameLoop.on("winnings_claimed", (data) => forwardEvent("winnings_claimed", data));
-      this.gameLoop.on("stats_update", (data) => forwardEvent("stats_update", data));
-      this.gameLoop.on("error", (data) => forwardEvent("error", data));
+      // Sweep unclaimed winnings on a schedule (between games while a session runs)
+      this.claimSweeper = new ClaimSweeper(this.rpcClient, claimSweepFileFor(this.address));
+      if (CLAIM_SWEEP_INTERVAL_MINUTES > 0 && !this.sweepTimer) {
+        this.sweepTimer = setInterval(() => {
+          if (!this.isRunning) {
+            void this.trySweepClaims("schedule");
+          }
+        }, CLAIM_SWEEP_INTERVAL_MINUTES * 60 * 1000);
+      }
+
+      // Keep the game history index current (one indexer per process)
+      if (INDEXER_ENABLED) {
+        eventIndexer.start();
+      }
 
       console.log("✅ Autonomous Player ready!");
     } catch (error) {
@@ -94,42 +183,367 @@ class AutonomousPlayerInstance {
   }
 
   /**
-   * Start autonomous play
+   * Wire game loop events to our listeners and the decision log
+   * Re-attached on every start because stop() removes all game loop listeners
+   */
+  private attachGameLoopListeners(): void {
+    const gameLoop = this.gameLoop!;
+    if (gameLoop.listenerCount("state_change") > 0) {
+      return; // Already attached
+    }
+
+    // Forward events to listeners
+    // EventEmitter emits events with (eventName, ...args) signature
+    const forwardEvent = (eventType: string, data?: any) => {
+      const event: GameLoopEvent = {
+        type: eventType,
+        state: this.gameLoop?.getState() || GameLoopState.IDLE,
+        data,
+        timestamp: Date.now(),
+      };
+      
+      this.eventListeners.forEach((listener) => {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error("Event listener error:", error);
+        }
+      });
+    };
+
+    // Listen to all game loop events
+    gameLoop.on("state_change", (data) => {
+      this.checkpoint();
+      forwardEvent("state_change", data);
+    });
+    gameLoop.on("initial_deal", (data) => forwardEvent("initial_deal", data));
+    gameLoop.on("decision", (record: DecisionRecord) => {
+      appendDecision({ ...record, player: this.id });
+      forwardEvent("decision", record);
+    });
+    gameLoop.on("override", (data) => forwardEvent("override", data));
+    gameLoop.on("game_complete", (data) => {
+      forwardEvent("game_complete", data);
+      this.refundBooking = this.recordRefund(data);
+    });
+    gameLoop.on("game_cancelled", (data) => forwardEvent("game_cancelled", data));
+    gameLoop.on("holding", (data) => forwardEvent("holding", data));
+    gameLoop.on("proposal", (data) => forwardEvent("proposal", data));
+    gameLoop.on("proposal_resolved", (data) => forwardEvent("proposal_resolved", data));
+    gameLoop.on("winnings_claimed", (data) => forwardEvent("winnings_claimed", data));
+    gameLoop.on("dry_run", (data) => forwardEvent("dry_run", data));
+    gameLoop.on("stats_update", (data) => forwardEvent("stats_update", data));
+    gameLoop.on("error", (data) => forwardEvent("error", data));
+  }
+
+  /**
+   * Append to the P&L ledger and let listeners know
+   */
+  private recordLedgerEntry(entry: LedgerEntry): void {
+    appendLedgerEntry(entry);
+    this.broadcast("ledger_update", entry);
+  }
+
+  /**
+   * Realized P&L in ETH of the games started since the session began, null if the ledger can't be read
+   * (the ETH balance can't tell: bets are swapped into wASS and winnings are paid in wASS)
+   */
+  private sessionPnl(session: GameSession): number | null {
+    try {
+      const { startedAt } = session.getProgress();
+      const games = readGameLedgers({ player: this.id }).filter((game) => game.firstRecordedAt >= startedAt);
+      return summarizeLedger(games).pnlEth;
+    } catch (error) {
+      console.warn("⚠️  Failed to read the P&L ledger, stop-loss and take-profit use the last known P&L:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Book the instant refund of a natural (paid by the VRF callback, not our transaction)
+   */
+  private async recordRefund(game: { gameId: bigint; playerCards: unknown[]; playerTotal: number }): Promise<void> {
+    if (game.playerCards.length !== 2 || game.playerTotal !== 21) {
+      return;
+    }
+
+    try {
+      const refund = await this.rpcClient!.getInstantWinRefund(game.gameId);
+      if (refund) {
+        this.recordLedgerEntry(refundEntry(this.id, game.gameId, refund.tokensRefunded, refund.transactionHash));
+      }
+    } catch (error) {
+      console.warn(`⚠️  Failed to look up the refund for game ${game.gameId}:`, error);
+    }
+  }
+
+  /**
+   * Start an autonomous session
+   * Returns once the session is running; progress streams as events
    */
-  async start(): Promise<void> {
+  async start(options: StartOptions = {}): Promise<void> {
+    // A stopped loop may still be finishing an in-flight action, never run two on one wallet
+    await this.sessionRun;
     if (this.isRunning) {
       console.log("⚠️  Already running - reusing existing process");
       return;
     }
 
     await this.initialize();
+    this.attachGameLoopListeners();
+
+    // Strategy and guardrail are chosen per run
+    this.gameLoop!.setStrategy(createDecisionStrategy(options.strategy));
+    this.gameLoop!.setGuardrail(options.guardrail || {});
+    this.gameLoop!.setApproval(options.approval || {});
+    if (options.restartAfterCancel !== undefined) {
+      this.gameLoop!.setRestartAfterCancel(options.restartAfterCancel);
+    }
+    this.gameLoop!.resetSessionStats();
+
+    const startBalance = await this.rpcClient!.getBalance();
+    const session = new GameSession(options.session || {}, startBalance);
+
+    this.journal.checkpoint({
+      startOptions: {
+        strategy: this.gameLoop!.getStrategyName(),
+        guardrail: this.gameLoop!.getGuardrailConfig(),
+        approval: this.gameLoop!.getApprovalConfig(),
+        restartAfterCancel: options.restartAfterCancel,
+      },
+    });
+
+    console.log(`🎮 Starting session ${session.id} (strategy: ${this.gameLoop!.getStrategyName()})...`);
+    this.launch(session, "session_started");
+  }
+
+  /**
+   * Resume the unfinished session left in the journal by a crash or reload
+   * A transaction that was in flight is waited on first, so a mined start isn't sent again
+   */
+  async resumeSession(): Promise<void> {
+    await this.sessionRun;
+    if (this.isRunning) {
+      console.log("⚠️  Already running - nothing to resume");
+      return;
+    }
+
+    const entry = this.journal.get();
+    if (!entry.session) {
+      throw new Error("No unfinished session to resume");
+    }
+
+    await this.initialize();
+    this.attachGameLoopListeners();
+
+    const options = entry.startOptions;
+    this.gameLoop!.setStrategy(createDecisionStrategy(options?.strategy));
+    this.gameLoop!.setGuardrail(options?.guardrail || {});
+    this.gameLoop!.setApproval(options?.approval || {});
+    if (options?.restartAfterCancel !== undefined) {
+      this.gameLoop!.setRestartAfterCancel(options.restartAfterCancel);
+    }
+
+    await this.settlePendingTransaction(entry.pendingTx);
+
+    const session = GameSession.restore(entry.session);
+    console.log(
+      `♻️  Resuming session ${session.id} after ${session.getProgress().gamesPlayed} games ` +
+        `(strategy: ${this.gameLoop!.getStrategyName()})...`
+    );
+    this.launch(session, "session_resumed");
+  }
+
+  /**
+   * Wait out a transaction that was in flight when the last process stopped
+   */
+  private async settlePendingTransaction(pendingTx: PendingTransaction | null): Promise<void> {
+    if (!pendingTx) {
+      return;
+    }
+
+    if (pendingTx.userOpHash) {
+      const result = await this.rpcClient!.waitForUserOperation(pendingTx.action, pendingTx.userOpHash);
+      if (result.success) {
+        console.log(`✅ Earlier ${pendingTx.action} was mined (tx ${result.transactionHash}), not resending`);
+      } else {
+        console.warn(`⚠️  Earlier ${pendingTx.action} did not go through: ${result.revertReason || result.error}`);
+      }
+    } else {
+      // Stopped between building and sending, the game state read next decides
+      console.warn(`⚠️  ${pendingTx.action} may not have been sent before the restart, checking on-chain state`);
+    }
+
+    this.journal.checkpoint({ pendingTx: null });
+  }
+
+  /**
+   * Run a new or resumed session in the background
+   */
+  private launch(session: GameSession, eventType: "session_started" | "session_resumed"): void {
+    this.session = session;
+
+    // Wake on contract events instead of re-reading the game every 2 seconds
+    if (process.env.EVENT_WATCHER_ENABLED !== "false") {
+      this.rpcClient!.startEventWatcher();
+    }
 
     this.isRunning = true;
     this.currentError = null;
-    console.log("🎮 Starting autonomous play...");
+    this.gameLoop!.resume(); // A new run never starts paused
+    console.log("📋 Session config:", session.getProgress().config);
+    this.checkpoint();
+    this.broadcast(eventType, session.getProgress());
+
+    // Run in the background so callers get the session id right away
+    this.sessionRun = this.runSession(session);
+  }
 
-    // Run game loop (single game mode)
-    await this.runContinuousLoop();
+  /**
+   * Claim winnings left on any of the wallet's games now
+   * Only while idle; during a session sweeps run between games
+   */
+  async sweepClaimsNow(): Promise<ClaimSweepReport> {
+    if (this.isRunning) {
+      throw new Error("A session is running, claims are swept between its games");
+    }
+
+    await this.initialize();
+    return this.sweepClaims("manual");
+  }
+
+  /**
+   * Run a claim sweep and stream its report
+   */
+  private async sweepClaims(reason: ClaimSweepReport["reason"]): Promise<ClaimSweepReport> {
+    const report = await this.claimSweeper!.sweep(reason);
+    this.broadcast("claim_sweep", report);
+    return report;
+  }
+
+  /**
+   * Sweep without letting a failure interrupt play
+   */
+  private async trySweepClaims(reason: ClaimSweepReport["reason"]): Promise<void> {
+    try {
+      await this.sweepClaims(reason);
+    } catch (error) {
+      console.warn(`⚠️  Claim sweep (${reason}) failed, will retry on the next one:`, error);
+    }
+  }
+
+  /**
+   * Write the loop and unfinished session to the journal
+   */
+  private checkpoint(): void {
+    if (!this.gameLoop) {
+      return;
+    }
+
+    this.journal.checkpoint({
+      loop: this.gameLoop.getSnapshot(),
+      session: this.session && !this.session.isFinished() ? this.session.toSnapshot() : null,
+    });
+  }
+
+  /**
+   * Pause at the next decision or game start; an in-flight action finishes first
+   * Unlike stop(), listeners and the session stay in place
+   */
+  pause(): void {
+    if (!this.isRunning) {
+      throw new Error("Not running");
+    }
+    if (this.gameLoop!.isPaused()) {
+      return;
+    }
+
+    console.log("⏸️  Pausing autonomous play...");
+    this.gameLoop!.pause();
+    this.broadcast("paused", { gameId: this.gameLoop!.getCurrentGameId() });
+  }
+
+  /**
+   * Continue after pause()
+   */
+  resume(): void {
+    if (!this.gameLoop?.isPaused()) {
+      throw new Error("Not paused");
+    }
+
+    console.log("▶️  Resuming autonomous play...");
+    this.gameLoop.resume();
+    this.broadcast("resumed", { gameId: this.gameLoop.getCurrentGameId() });
+  }
+
+  /**
+   * While paused, advance exactly one decision (or one game start)
+   */
+  step(): void {
+    if (!this.isRunning || !this.gameLoop?.isPaused()) {
+      throw new Error("Step is only available while paused");
+    }
+
+    console.log("⏭️  Stepping one decision...");
+    this.gameLoop.step();
+    this.broadcast("step", { gameId: this.gameLoop.getCurrentGameId() });
+  }
+
+  /**
+   * Approve or reject the pending proposal
+   * Returns false if it is no longer pending (already decided or timed out) or can't be rejected
+   */
+  decideProposal(proposalId: string, verdict: ApprovalVerdict): boolean {
+    if (!this.gameLoop?.decideProposal(proposalId, verdict)) {
+      return false;
+    }
+    console.log(`🧑‍⚖️ Operator ${verdict} proposal ${proposalId.slice(0, 8)}`);
+    return true;
+  }
+
+  /**
+   * Proposal waiting for the operator, if any
+   */
+  getPendingProposal(): Proposal | null {
+    return this.gameLoop?.getPendingProposal() ?? null;
+  }
+
+  /**
+   * Check if paused
+   */
+  isPaused(): boolean {
+    return this.isRunning && (this.gameLoop?.isPaused() ?? false);
   }
 
   /**
    * Stop autonomous play
+   * Resolves once the session loop has exited (an in-flight transaction settles first)
    */
-  stop(): void {
+  async stop(): Promise<void> {
     console.log("🛑 [STOP] Stop method called");
     console.log(`🛑 [STOP] Current isRunning state: ${this.isRunning}`);
     
     if (!this.isRunning) {
       console.log("⚠️  [STOP] Not running - nothing to stop");
+      await this.sessionRun; // An earlier stop's loop may still be exiting
       return;
     }
 
     console.log("🛑 [STOP] Setting isRunning to FALSE");
     this.isRunning = false;
     console.log("🛑 [STOP] Stop flag set - game loop should terminate within 2 seconds");
+
+    // Summarize now, the game loop's listeners are removed below
+    if (this.session && !this.session.isFinished()) {
+      this.broadcast("session_complete", this.session.finish("stopped"));
+    }
+    this.checkpoint();
     
     // Clean up resources
     this.cleanup();
+
+    await this.sessionRun;
+    console.log("🛑 [STOP] Session loop exited");
   }
 
   /**
@@ -138,14 +552,15 @@ class AutonomousPlayerInstance {
   private cleanup(): void {
     console.log("🧹 Cleaning up resources...");
     
+    // Stop watching contract events (also releases any pending waits)
+    this.rpcClient?.stopEventWatcher();
+
     // Remove all event listeners from game loop
+    // Stream subscribers stay: connected dashboards keep receiving events on the next start
     if (this.gameLoop) {
       this.gameLoop.removeAllListeners();
     }
     
-    // Clear our event listener array
-    this.eventListeners = [];
-    
     // Clear error state
     this.currentError = null;
     
@@ -153,18 +568,54 @@ class AutonomousPlayerInstance {
   }
 
   /**
-   * Single game loop - runs one game then stops
+   * Session loop - plays games until a stop condition is met
    */
-  private async runContinuousLoop(): Promise<void> {
-    try {
-      console.log("\n" + "=".repeat(60));
-      console.log("🎲 STARTING SINGLE GAME");
-      console.log("=".repeat(60) + "\n");
-
-      // Run ONE game cycle then stop
-      await this.gameLoop!.runGameCycle();
+  private async runSession(session: GameSession): Promise<void> {
+    let stopReason: SessionStopReason = "stopped";
 
-      console.log("✅ Single game completed");
+    try {
+      // Collect winnings left on older games before playing
+      await this.trySweepClaims("session");
+
+      while (true) {
+        const reason = session.checkStop();
+        if (reason) {
+          stopReason = reason;
+          break;
+        }
+
+        if (this.shouldStop()) {
+          throw new Error("Stopped by user");
+        }
+
+        if (this.claimSweeper!.isDue()) {
+          await this.trySweepClaims("schedule");
+        }
+
+        const gameNumber = session.getProgress().gamesPlayed + 1;
+        console.log("\n" + "=".repeat(60));
+        console.log(`🎲 SESSION ${session.id.slice(0, 8)} - GAME ${gameNumber}`);
+        console.log("=".repeat(60) + "\n");
+
+        const result = await this.gameLoop!.runGameCycle();
+        if (result === GameResult.UNKNOWN) {
+          throw new Error("Game cycle ended in an unknown state");
+        }
+
+        let balance: bigint | null = null;
+        try {
+          balance = await this.rpcClient!.getBalance();
+        } catch (error) {
+          console.warn("⚠️  Failed to refresh balance, balance conditions use the last known value:", error);
+        }
+
+        // A natural's refund is booked after game_complete, wait for it before valuing the session
+        await this.refundBooking;
+        session.recordGame(result, balance, this.sessionPnl(session), this.gameLoop!.getSessionStats());
+        console.log(`✅ Game ${gameNumber} completed: ${result}`);
+        this.checkpoint();
+        this.broadcast("session_progress", session.getProgress());
+      }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
 
@@ -172,9 +623,16 @@ class AutonomousPlayerInstance {
       if (errorMessage === "Stopped by user") {
         console.log("🛑 Stopped by user request");
         // Don't set currentError for user-requested stops
+      } else if (errorMessage === START_REJECTED) {
+        console.log("🙅 Next game rejected, ending session");
+        stopReason = "rejected";
+      } else if (errorMessage === DRY_RUN_STOP) {
+        console.log("🧪 Dry run: next transaction simulated, ending session");
+        stopReason = "dry_run";
       } else {
         console.error("❌ Error in game loop:", error);
         this.currentError = errorMessage;
+        stopReason = "error";
 
         // Emit error event only for actual errors
         this.eventListeners.forEach((listener) => {
@@ -193,12 +651,23 @@ class AutonomousPlayerInstance {
       // This prevents race condition where finally runs before stop() is called
       const wasRunning = this.isRunning;
       if (wasRunning) {
-        console.log("✅ [FINALLY] Game completed, setting isRunning to false");
+        console.log("✅ [FINALLY] Session completed, setting isRunning to false");
         this.isRunning = false;
       } else {
         console.log("✅ [FINALLY] Already stopped (isRunning was already false)");
       }
 
+      if (!session.isFinished()) {
+        const summary = session.finish(stopReason, this.currentError || undefined);
+        console.log(
+          `📋 Session ${session.id} ended (${summary.stopReason}): ${summary.gamesPlayed} games, ` +
+            `${summary.wins}W/${summary.losses}L/${summary.pushes}P, net ${summary.netEth.toFixed(6)} ETH`
+        );
+        this.broadcast("session_complete", summary);
+      }
+
+      this.checkpoint();
+      this.rpcClient?.stopEventWatcher();
       console.log("✅ Autonomous play stopped");
 
       // Emit final status update
@@ -213,12 +682,67 @@ class AutonomousPlayerInstance {
     }
   }
 
+  /**
+   * Send an event to all listeners
+   */
+  private broadcast(type: string, data: unknown): void {
+    const event: GameLoopEvent = {
+      type,
+      state: this.gameLoop?.getState() || GameLoopState.IDLE,
+      data,
+      timestamp: Date.now(),
+    };
+
+    this.eventListeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("Event listener error:", error);
+      }
+    });
+  }
+
+  /**
+   * Get current or most recent session progress
+   */
+  getSession(): SessionProgress | null {
+    if (!this.session) {
+      return null;
+    }
+
+    const progress = this.session.getProgress();
+    // Decision counters update mid-game, the session copy only after each game
+    if (progress.isActive && this.gameLoop) {
+      progress.decisionStats = this.gameLoop.getSessionStats();
+    }
+    return progress;
+  }
+
+  /**
+   * Unfinished session in the journal, if not already running
+   */
+  getResumable(): ResumableSession | null {
+    const entry = this.journal.get();
+    if (this.isRunning || !entry.session) {
+      return null;
+    }
+
+    return {
+      sessionId: entry.session.id,
+      gamesPlayed: entry.session.gamesPlayed,
+      savedAt: entry.savedAt,
+      pendingTx: entry.pendingTx,
+    };
+  }
+
   /**
    * Get current status
    */
   async getStatus(): Promise<AutonomousPlayerStatus> {
     if (!this.gameLoop || !this.rpcClient) {
       return {
+        playerId: this.id,
+        address: this.address,
         isRunning: false,
         currentState: GameLoopState.IDLE,
         stats: {
@@ -234,15 +758,43 @@ class AutonomousPlayerInstance {
         },
         currentGameId: null,
         error: this.currentError,
+        strategy: DEFAULT_STRATEGY,
+        session: this.getSession(),
+        guardrail: DEFAULT_GUARDRAIL_CONFIG,
+        paused: false,
+        approval: DEFAULT_APPROVAL_CONFIG,
+        pendingProposal: null,
+        resumable: this.getResumable(),
+        claimSweep: null,
+        rpc: getRpcHealth(),
+        dryRun: DRY_RUN,
+        simulations: [],
       };
     }
 
     return {
+      playerId: this.id,
+      address: this.address,
       isRunning: this.isRunning,
       currentState: this.gameLoop.getState(),
       stats: this.gameLoop.getStats(),
       currentGameId: this.gameLoop.getCurrentGameId(),
       error: this.currentError,
+      strategy: this.gameLoop.getStrategyName(),
+      session: this.getSession(),
+      guardrail: this.gameLoop.getGuardrailConfig(),
+      paused: this.isRunning && this.gameLoop.isPaused(),
+      approval: this.gameLoop.getApprovalConfig(),
+      pendingProposal: this.gameLoop.getPendingProposal(),
+      resumable: this.getResumable(),
+      claimSweep: this.claimSweeper && {
+        sweeping: this.claimSweeper.isSweeping(),
+        totals: this.claimSweeper.getTotals(),
+        lastReport: this.claimSweeper.getLastReport(),
+      },
+      rpc: getRpcHealth(),
+      dryRun: DRY_RUN,
+      simulations: this.rpcClient.getSimulations(),
     };
   }
 
@@ -296,11 +848,3 @@ class AutonomousPlayerInstance {
     );
   }
 }
-
-// Singleton instance
-const autonomousPlayer = new AutonomousPlayerInstance();
-
-export default autonomousPlayer;
-
-// Export for type checking
-export type { AutonomousPlayerInstance };
\ No newline at end of file
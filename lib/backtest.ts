@@ -0,0 +1,182 @@
+/**
+ * Strategy Backtester
+ *
+ * Plays many simulated hands with a DecisionStrategy against the exact contract
+ * rules (see blackjack-simulator.ts) and reports expected value per hand.
+ * Hands are scored +1 win, 0 push, -1 loss/bust. Naturals are refunded instantly
+ * on-chain and never reach a market, so they score `naturalPayout` (default 0).
+ */
+
+import {
+  SeededRandom,
+  dealInitialHand,
+  hit,
+  stand,
+  calculateHandValue,
+  isSoftHand,
+  toCardDisplay,
+} from "./blackjack-simulator";
+import type { RandomSource, SimulatedGame } from "./blackjack-simulator";
+import { HandState, MarketResult } from "./contract-types";
+import type { DecisionStrategy, DecisionContext } from "./decision-strategy";
+
+export interface BacktestOptions {
+  hands: number;
+  seed?: number;
+  naturalPayout?: number; // Score for a player natural that isn't pushed
+  onProgress?: (handsPlayed: number) => void;
+}
+
+// Stats for one starting situation (first decision of the hand)
+export interface SituationStats {
+  situation: string; // e.g. "hard 16 vs 10", "soft 18 vs 9"
+  hands: number;
+  hitRate: number;
+  ev: number;
+}
+
+export interface BacktestReport {
+  strategy: string;
+  seed: number;
+  hands: number;
+  ev: number; // Mean units won per hand
+  standardError: number;
+  winRate: number;
+  pushRate: number;
+  lossRate: number;
+  bustRate: number;
+  naturalRate: number;
+  situations: SituationStats[];
+}
+
+interface SituationAccumulator {
+  hands: number;
+  hits: number;
+  total: number;
+}
+
+/**
+ * Run a backtest of a strategy over simulated hands
+ */
+export async function runBacktest(strategy: DecisionStrategy, options: BacktestOptions): Promise<BacktestReport> {
+  const seed = options.seed ?? Date.now();
+  const naturalPayout = options.naturalPayout ?? 0;
+  const random = new SeededRandom(seed);
+
+  let sum = 0;
+  let sumSquares = 0;
+  let wins = 0;
+  let pushes = 0;
+  let losses = 0;
+  let busts = 0;
+  let naturals = 0;
+  const situations = new Map<string, SituationAccumulator>();
+
+  for (let i = 0; i < options.hands; i++) {
+    const { game, firstSituation, firstAction } = await playHand(strategy, random);
+
+    let score: number;
+    if (game.result === MarketResult.Win) {
+      score = game.natural ? naturalPayout : 1;
+      wins++;
+    } else if (game.result === MarketResult.Push) {
+      score = 0;
+      pushes++;
+    } else {
+      score = -1;
+      losses++;
+    }
+    if (game.natural) naturals++;
+    if (game.state === HandState.Busted) busts++;
+
+    sum += score;
+    sumSquares += score * score;
+
+    if (firstSituation) {
+      const acc = situations.get(firstSituation) || { hands: 0, hits: 0, total: 0 };
+      acc.hands++;
+      acc.total += score;
+      if (firstAction === "hit") acc.hits++;
+      situations.set(firstSituation, acc);
+    }
+
+    if (options.onProgress && (i + 1) % 1000 === 0) {
+      options.onProgress(i + 1);
+    }
+  }
+
+  const hands = options.hands;
+  const mean = hands > 0 ? sum / hands : 0;
+  const variance = hands > 1 ? (sumSquares - hands * mean * mean) / (hands - 1) : 0;
+
+  return {
+    strategy: strategy.name,
+    seed,
+    hands,
+    ev: mean,
+    standardError: hands > 0 ? Math.sqrt(variance / hands) : 0,
+    winRate: hands > 0 ? wins / hands : 0,
+    pushRate: hands > 0 ? pushes / hands : 0,
+    lossRate: hands > 0 ? losses / hands : 0,
+    bustRate: hands > 0 ? busts / hands : 0,
+    naturalRate: hands > 0 ? naturals / hands : 0,
+    situations: Array.from(situations.entries())
+      .map(([situation, acc]) => ({
+        situation,
+        hands: acc.hands,
+        hitRate: acc.hits / acc.hands,
+        ev: acc.total / acc.hands,
+      }))
+      .sort((a, b) => b.hands - a.hands),
+  };
+}
+
+/**
+ * Play one hand to completion, asking the strategy at every decision point
+ */
+async function playHand(
+  strategy: DecisionStrategy,
+  random: RandomSource
+): Promise<{ game: SimulatedGame; firstSituation: string | null; firstAction: string | null }> {
+  const game = dealInitialHand(random.nextWord());
+  let firstSituation: string | null = null;
+  let firstAction: string | null = null;
+
+  while (game.state === HandState.Active) {
+    const playerTotal = calculateHandValue(game.playerHand);
+    const context: DecisionContext = {
+      playerCards: game.playerHand.map(toCardDisplay),
+      playerTotal,
+      dealerCards: game.dealerHand.map(toCardDisplay),
+      dealerTotal: calculateHandValue(game.dealerHand),
+      canHit: playerTotal < 21,
+      canStand: true,
+    };
+
+    // Contract rejects hit at 21, so the loop only asks when there is a choice
+    const action = context.canHit ? (await strategy.decide(context)).action : "stand";
+
+    if (firstSituation === null) {
+      firstSituation = describeSituation(game);
+      firstAction = action;
+    }
+
+    if (action === "hit") {
+      hit(game, random.nextWord());
+    } else {
+      stand(game, random.nextWord());
+    }
+  }
+
+  return { game, firstSituation, firstAction };
+}
+
+/**
+ * Label a starting situation by player total and dealer upcard value
+ */
+function describeSituation(game: SimulatedGame): string {
+  const playerTotal = calculateHandValue(game.playerHand);
+  const upcard = toCardDisplay(game.dealerHand[0]);
+  const upcardLabel = upcard.rank === "A" ? "A" : String(upcard.value);
+  return `${isSoftHand(game.playerHand) ? "soft" : "hard"} ${playerTotal} vs ${upcardLabel}`;
+}
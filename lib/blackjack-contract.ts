@@ -0,0 +1,41 @@
+/**
+ * Blackjack Contract Bindings
+ *
+ * Typed helpers over the generated ABI (blackjack-abi.ts). Spread
+ * `blackjackContract(address)` into readContract / multicall / getContractEvents
+ * and viem infers each call's arguments and result from the ABI; use
+ * `encodeBlackjackCall` for transaction data. A call that no longer matches
+ * the contract is a compile error rather than a runtime cast.
+ */
+
+import { encodeFunctionData } from "viem";
+import type { Address, ContractFunctionArgs, ContractFunctionName, EncodeFunctionDataParameters, Hex } from "viem";
+import { blackjackAbi } from "./blackjack-abi";
+import type { BlackjackAbi } from "./blackjack-abi";
+
+export { blackjackAbi };
+export type { BlackjackAbi };
+
+// State-changing functions and their arguments
+export type BlackjackWriteFunction = ContractFunctionName<BlackjackAbi, "nonpayable" | "payable">;
+export type BlackjackWriteArgs<F extends BlackjackWriteFunction> = ContractFunctionArgs<
+  BlackjackAbi,
+  "nonpayable" | "payable",
+  F
+>;
+
+/**
+ * Address and ABI of the Blackjack contract, for viem contract calls
+ */
+export function blackjackContract(address: string): { address: Address; abi: BlackjackAbi } {
+  return { address: address as Address, abi: blackjackAbi };
+}
+
+/**
+ * Calldata for a state-changing Blackjack call
+ */
+export function encodeBlackjackCall<F extends BlackjackWriteFunction>(functionName: F, args: BlackjackWriteArgs<F>): Hex {
+  // viem can't narrow the generic args itself; the signature above is what callers are checked against
+  const parameters = { abi: blackjackAbi, functionName, args } as unknown as EncodeFunctionDataParameters<BlackjackAbi, F>;
+  return encodeFunctionData<BlackjackAbi, F>(parameters);
+}
@@ -0,0 +1,241 @@
+/**
+ * Offline Blackjack Simulator
+ *
+ * Pure TypeScript port of Blackjack.sol's game rules, used for backtesting.
+ * Mirrors the contract function by function:
+ * - `_drawUniqueCard`: one 52-card deck per game, drawn without replacement by
+ *   re-hashing the VRF word until an unused card id comes up
+ * - `_cardValue` / `_calculateHandValue`: aces count 11, then drop to 1 while over 21
+ * - `_handleInitialDeal`: player/dealer/player/dealer, natural 21 refunds instantly
+ * - `hit()`: not allowed at 21, bust over 21
+ * - `_handleStand`: dealer draws until 17 or more (stands on soft 17)
+ *
+ * Given the same VRF words, the simulator produces the same cards as the contract.
+ */
+
+import { bytesToBigInt, keccak256 } from "viem";
+import { CARD_RANKS, CARD_SUITS, HandState, MarketResult } from "./contract-types";
+import type { CardDisplay } from "./rpc-client";
+
+const DECK_SIZE = 52;
+const DEALER_STAND_VALUE = 17;
+
+export interface SimulatedGame {
+  state: HandState;
+  result: MarketResult;
+  playerHand: number[];
+  dealerHand: number[];
+  usedCards: number[];
+  natural: boolean; // Player blackjack on the initial deal (instant refund, no market)
+}
+
+/**
+ * Source of VRF words (one 256-bit word per callback)
+ */
+export interface RandomSource {
+  nextWord(): bigint;
+}
+
+/**
+ * Deterministic 256-bit word generator (mulberry32 lanes) for reproducible backtests
+ */
+export class SeededRandom implements RandomSource {
+  private state: number;
+
+  constructor(seed: number = Date.now()) {
+    this.state = seed >>> 0;
+  }
+
+  private next32(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  }
+
+  nextWord(): bigint {
+    let word = 0n;
+    for (let i = 0; i < 8; i++) {
+      word = (word << 32n) | BigInt(this.next32());
+    }
+    return word;
+  }
+}
+
+/**
+ * keccak256(abi.encodePacked(uint256 randomness, uintN value))
+ */
+function rehash(randomness: bigint, value: number, valueBytes: number): bigint {
+  const packed = new Uint8Array(32 + valueBytes);
+  let word = randomness;
+  for (let i = 31; i >= 0; i--) {
+    packed[i] = Number(word & 0xffn);
+    word >>= 8n;
+  }
+  let n = value;
+  for (let i = 32 + valueBytes - 1; i >= 32; i--) {
+    packed[i] = n & 0xff;
+    n = Math.floor(n / 256);
+  }
+  return bytesToBigInt(keccak256(packed, "bytes"));
+}
+
+/**
+ * Port of `_cardValue`
+ */
+export function cardValue(cardId: number): number {
+  const rank = cardId % 13;
+  if (rank === 0) return 11;
+  if (rank >= 9) return 10;
+  return rank + 1;
+}
+
+/**
+ * Port of `_calculateHandValue`
+ */
+export function calculateHandValue(hand: number[]): number {
+  let total = 0;
+  let aces = 0;
+
+  for (const cardId of hand) {
+    const value = cardValue(cardId);
+    total += value;
+    if (value === 11) aces++;
+  }
+
+  while (total > 21 && aces > 0) {
+    total -= 10;
+    aces--;
+  }
+
+  return total;
+}
+
+/**
+ * Whether an ace is still counted as 11
+ */
+export function isSoftHand(hand: number[]): boolean {
+  const hardTotal = hand.reduce((sum, cardId) => sum + (cardId % 13 === 0 ? 1 : cardValue(cardId)), 0);
+  return hand.some((cardId) => cardId % 13 === 0) && hardTotal + 10 === calculateHandValue(hand);
+}
+
+/**
+ * Port of `_getCardDisplay` + `_cardValue`, in the shape getGameDisplay returns
+ */
+export function toCardDisplay(cardId: number): CardDisplay {
+  return {
+    rank: CARD_RANKS[cardId % 13],
+    suit: CARD_SUITS[Math.floor(cardId / 13)],
+    value: cardValue(cardId),
+  };
+}
+
+/**
+ * Port of `_drawUniqueCard`
+ * Re-hashes up to 52 times looking for an unused card; like the contract, the
+ * last candidate is kept even if it is a duplicate.
+ */
+function drawUniqueCard(game: SimulatedGame, randomness: bigint): number {
+  let card = 0;
+  let isUnique = false;
+  let attempts = 0;
+
+  while (!isUnique && attempts < DECK_SIZE) {
+    card = Number(randomness % BigInt(DECK_SIZE));
+    randomness = rehash(randomness, attempts, 32);
+    isUnique = !game.usedCards.includes(card);
+    attempts++;
+  }
+
+  game.usedCards.push(card);
+  return card;
+}
+
+/**
+ * Port of `startGame` + `_handleInitialDeal`
+ */
+export function dealInitialHand(randomness: bigint): SimulatedGame {
+  const game: SimulatedGame = {
+    state: HandState.PendingInitialDeal,
+    result: MarketResult.Pending,
+    playerHand: [],
+    dealerHand: [],
+    usedCards: [],
+    natural: false,
+  };
+
+  for (let i = 0; i < 4; i++) {
+    const card = drawUniqueCard(game, randomness);
+    randomness = rehash(randomness, i, 1); // uint8 i
+
+    if (i % 2 === 0) {
+      game.playerHand.push(card);
+    } else {
+      game.dealerHand.push(card);
+    }
+  }
+
+  const playerValue = calculateHandValue(game.playerHand);
+
+  if (playerValue === 21 && game.playerHand.length === 2) {
+    const dealerValue = calculateHandValue(game.dealerHand);
+    game.natural = true;
+    game.state = HandState.Finished;
+    game.result = dealerValue === 21 && game.dealerHand.length === 2 ? MarketResult.Push : MarketResult.Win;
+  } else {
+    game.state = HandState.Active;
+  }
+
+  return game;
+}
+
+/**
+ * Port of `hit()` + `_handleHit`
+ */
+export function hit(game: SimulatedGame, randomness: bigint): void {
+  if (game.state !== HandState.Active) {
+    throw new Error("Cannot hit: game not active");
+  }
+  if (calculateHandValue(game.playerHand) >= 21) {
+    throw new Error("Cannot hit: already at 21");
+  }
+
+  const card = drawUniqueCard(game, randomness);
+  game.playerHand.push(card);
+
+  if (calculateHandValue(game.playerHand) > 21) {
+    game.state = HandState.Busted;
+    game.result = MarketResult.Lose;
+  }
+}
+
+/**
+ * Port of `stand()` + `_handleStand`
+ */
+export function stand(game: SimulatedGame, randomness: bigint): void {
+  if (game.state !== HandState.Active) {
+    throw new Error("Cannot stand: game not active");
+  }
+
+  while (calculateHandValue(game.dealerHand) < DEALER_STAND_VALUE) {
+    const card = drawUniqueCard(game, randomness);
+    game.dealerHand.push(card);
+    randomness = rehash(randomness, game.dealerHand.length, 32); // uint256 length
+  }
+
+  const playerValue = calculateHandValue(game.playerHand);
+  const dealerValue = calculateHandValue(game.dealerHand);
+
+  if (playerValue > 21) {
+    game.result = MarketResult.Lose;
+  } else if (dealerValue > 21 || playerValue > dealerValue) {
+    game.result = MarketResult.Win;
+  } else if (playerValue === dealerValue) {
+    game.result = MarketResult.Push;
+  } else {
+    game.result = MarketResult.Lose;
+  }
+
+  game.state = HandState.Finished;
+}
@@ -0,0 +1,491 @@
+/**
+ * Read-Only Chain Reader
+ *
+ * Every view call on the Blackjack contract, made through a plain viem public
+ * client on the RPC pool (RPC_URLS / RPC_URL, with failover). Needs no CDP
+ * credentials, so dashboards and stats work without wallet keys. The public
+ * client is created once per process and shared by every reader.
+ * BlackjackRPCClient extends this with transactions.
+ */
+
+import { createPublicClient, custom, parseAbi } from "viem";
+import type { Address, PublicClient } from "viem";
+import { base, baseSepolia } from "viem/chains";
+import { blackjackContract } from "./blackjack-contract";
+import type { BlackjackAbi } from "./blackjack-contract";
+import { HandState, MarketResult, isFinishedState, isPendingState } from "./contract-types";
+import type {
+  BlackjackReadResult,
+  CardDisplay,
+  ContractGameDisplay,
+  GameResolution,
+  MarketDisplay,
+  OnChainGame,
+} from "./contract-types";
+import { RpcPool, getRpcUrls } from "./rpc-pool";
+import type { RpcEndpointHealth } from "./rpc-pool";
+
+// How far back to look for a game's GameResolved event (~11h of Base blocks)
+const RESOLUTION_LOOKBACK_BLOCKS = BigInt(process.env.RESOLUTION_LOOKBACK_BLOCKS || "20000");
+
+// Largest block range per eth_getLogs request when scanning history
+const LOG_CHUNK_BLOCKS = BigInt(process.env.LOG_CHUNK_BLOCKS || "10000");
+
+// Block the Blackjack contract was deployed in, where full-history scans start
+// Found with an eth_getCode binary search when unset (needs an archive RPC endpoint)
+const BLACKJACK_DEPLOYMENT_BLOCK = process.env.BLACKJACK_DEPLOYMENT_BLOCK
+  ? BigInt(process.env.BLACKJACK_DEPLOYMENT_BLOCK)
+  : null;
+
+// Multicall3 is deployed at the same address on every EVM chain we run on (Base, Base Sepolia)
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const MULTICALL3_ABI = parseAbi([
+  "function getBlockNumber() view returns (uint256 blockNumber)",
+  "function getCurrentBlockTimestamp() view returns (uint256 timestamp)",
+]);
+
+// A new game can start between the id lookup and the batched read; retry this many times
+const SNAPSHOT_MAX_READS = 3;
+
+export type { CardDisplay };
+
+// getGameDisplay plus the raw state from games(address)
+export interface GameDisplay extends ContractGameDisplay {
+  state: HandState;
+}
+
+export interface PlayerStats {
+  gamesPlayed: bigint;
+  gamesWon: bigint;
+  gamesLost: bigint;
+  gamesPushed: bigint;
+  playerBusts: bigint;
+  winRate: number;
+}
+
+// Everything the loop reads about our game, taken at a single block
+export interface ContractSnapshot {
+  blockNumber: bigint;
+  blockTimestamp: bigint;
+  game: GameDisplay;
+  market: MarketDisplay; // Market for game.gameId (all zero before the first game)
+  claimable: bigint; // Claimable winnings for game.gameId
+  stats: PlayerStats;
+}
+let rpcPool: RpcPool | null = null;
+let readClient: PublicClient | null = null;
+const deploymentBlocks = new Map<string, Promise<bigint>>();
+
+/**
+ * Shared public client for NETWORK_ID on the RPC pool
+ * Uses the chain's public RPC if no endpoints are configured
+ */
+export function getReadClient(): PublicClient {
+  if (!readClient) {
+    const chain = process.env.NETWORK_ID === "base-mainnet" ? base : baseSepolia;
+    const urls = getRpcUrls();
+    rpcPool = new RpcPool(urls.length > 0 ? urls : [...chain.rpcUrls.default.http], chain);
+    // The pool retries and fails over itself
+    readClient = createPublicClient({ chain, transport: custom(rpcPool, { retryCount: 0 }) }) as PublicClient;
+  }
+  return readClient;
+}
+
+/**
+ * Block a contract was deployed in: BLACKJACK_DEPLOYMENT_BLOCK, or the first block with its code
+ * Looked up once per contract; rejects if the endpoints can't serve historical state
+ */
+export function findDeploymentBlock(contractAddress: string, client: PublicClient = getReadClient()): Promise<bigint> {
+  if (BLACKJACK_DEPLOYMENT_BLOCK !== null) {
+    return Promise.resolve(BLACKJACK_DEPLOYMENT_BLOCK);
+  }
+
+  const key = contractAddress.toLowerCase();
+  let lookup = deploymentBlocks.get(key);
+  if (!lookup) {
+    lookup = searchDeploymentBlock(contractAddress as Address, client);
+    // A failed lookup (e.g. a non-archive endpoint) is retried on the next call
+    lookup.catch(() => deploymentBlocks.delete(key));
+    deploymentBlocks.set(key, lookup);
+  }
+  return lookup;
+}
+
+async function searchDeploymentBlock(address: Address, client: PublicClient): Promise<bigint> {
+  const hasCode = async (blockNumber: bigint) => {
+    const code = await client.getCode({ address, blockNumber });
+    return code !== undefined && code !== "0x";
+  };
+
+  let high = await client.getBlockNumber();
+  if (!(await hasCode(high))) {
+    throw new Error(`No contract code at ${address}`);
+  }
+
+  let low = 0n;
+  while (low < high) {
+    const mid = (low + high) / 2n;
+    if (await hasCode(mid)) {
+      high = mid;
+    } else {
+      low = mid + 1n;
+    }
+  }
+
+  console.log(`📍 Contract ${address} was deployed in block ${low}`);
+  return low;
+}
+
+/**
+ * Health of each RPC endpoint, best first (empty until the first read)
+ */
+export function getRpcHealth(): RpcEndpointHealth[] {
+  return rpcPool?.getHealth() ?? [];
+}
+
+/**
+ * Read-only view of one player's game on the Blackjack contract
+ */
+export class BlackjackReader {
+  protected publicClient: PublicClient;
+  protected contractAddress: string;
+  protected playerAddress: Address;
+  protected contract: { address: Address; abi: BlackjackAbi };
+  private snapshotGameId = 0n; // Game id the next snapshot reads the market for
+
+  constructor(contractAddress: string, playerAddress: string, publicClient: PublicClient = getReadClient()) {
+    this.publicClient = publicClient;
+    this.contractAddress = contractAddress;
+    this.playerAddress = playerAddress as Address;
+    this.contract = blackjackContract(contractAddress);
+  }
+
+  /**
+   * Get full game status with all details
+   */
+  async getGameStatus(): Promise<GameDisplay> {
+    try {
+      return (await this.getSnapshot()).game;
+    } catch (error) {
+      console.error("❌ Failed to get game status:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Read game display, game state, market, claimable amount and stats in one
+   * Multicall3 call, so every value comes from the same block
+   * The market is read for the last game id seen; when a new game has started
+   * the batch is read again for it (one extra round trip per game)
+   */
+  async getSnapshot(): Promise<ContractSnapshot> {
+    try {
+      for (let read = 1; ; read++) {
+        const snapshot = await this.readSnapshot(this.snapshotGameId);
+        if (snapshot.game.gameId === this.snapshotGameId) {
+          return snapshot;
+        }
+        this.snapshotGameId = snapshot.game.gameId;
+        if (read >= SNAPSHOT_MAX_READS) {
+          throw new Error(`Game id kept changing during snapshot (now ${snapshot.game.gameId})`);
+        }
+      }
+    } catch (error) {
+      console.error("❌ Failed to read contract snapshot:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * One batched read with the market for the given game id
+   */
+  private async readSnapshot(gameId: bigint): Promise<ContractSnapshot> {
+    const contract = this.contract;
+    const multicall3 = { address: MULTICALL3_ADDRESS as Address, abi: MULTICALL3_ABI };
+
+    const [blockNumber, blockTimestamp, display, game, market, stats] = await this.publicClient.multicall({
+      multicallAddress: MULTICALL3_ADDRESS,
+      allowFailure: false,
+      contracts: [
+        { ...multicall3, functionName: "getBlockNumber" },
+        { ...multicall3, functionName: "getCurrentBlockTimestamp" },
+        { ...contract, functionName: "getGameDisplay", args: [this.playerAddress] },
+        { ...contract, functionName: "games", args: [this.playerAddress] },
+        { ...contract, functionName: "getMarketDisplay", args: [gameId, this.playerAddress] },
+        { ...contract, functionName: "getStats", args: [this.playerAddress] },
+      ],
+    });
+
+    return {
+      blockNumber,
+      blockTimestamp,
+      game: { ...display, state: this.toOnChainGame(game).state },
+      market: { ...market, result: market.result as MarketResult },
+      claimable: market.userClaimable, // Same value getClaimableAmount returns
+      stats: this.toPlayerStats(stats),
+    };
+  }
+
+  /**
+   * Get the raw game struct from the public games(address) mapping
+   */
+  async getGame(): Promise<OnChainGame> {
+    try {
+      const result = await this.publicClient.readContract({
+        ...this.contract,
+        functionName: "games",
+        args: [this.playerAddress],
+      });
+
+      return this.toOnChainGame(result);
+    } catch (error) {
+      console.error("❌ Failed to get game:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Decode the games(address) tuple
+   */
+  private toOnChainGame(result: BlackjackReadResult<"games">): OnChainGame {
+    const [player, gameId, startedAt, lastActionAt, vrfRequestTime, tradingPeriodEnds, tokensHeld, state] = result;
+
+    return {
+      player,
+      gameId,
+      startedAt,
+      lastActionAt,
+      vrfRequestTime,
+      tradingPeriodEnds,
+      tokensHeld,
+      state: state as HandState,
+    };
+  }
+
+  /**
+   * Find and decode the GameResolved event for a game
+   * Returns null if the game has not been resolved (or is older than the lookback window)
+   */
+  async getGameResolution(gameId: bigint): Promise<GameResolution | null> {
+    try {
+      const latestBlock = await this.publicClient.getBlockNumber();
+      const fromBlock = latestBlock > RESOLUTION_LOOKBACK_BLOCKS ? latestBlock - RESOLUTION_LOOKBACK_BLOCKS : 0n;
+
+      const logs = await this.publicClient.getContractEvents({
+        ...this.contract,
+        eventName: "GameResolved",
+        args: { player: this.playerAddress, gameId },
+        fromBlock,
+        toBlock: latestBlock,
+      });
+
+      const log = logs[logs.length - 1];
+      if (!log) {
+        return null;
+      }
+
+      const { args } = log;
+      return {
+        gameId: args.gameId!,
+        result: args.result!,
+        playerValue: args.playerValue!,
+        dealerValue: args.dealerValue!,
+        marketResult: args.marketResult! as MarketResult,
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+      };
+    } catch (error) {
+      console.error("❌ Failed to get game resolution:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the InstantWinRefund for a game dealt a natural
+   * Returns null if the game had no refund (or is older than the lookback window)
+   */
+  async getInstantWinRefund(gameId: bigint): Promise<{ tokensRefunded: bigint; transactionHash: string | null } | null> {
+    const latestBlock = await this.publicClient.getBlockNumber();
+    const fromBlock = latestBlock > RESOLUTION_LOOKBACK_BLOCKS ? latestBlock - RESOLUTION_LOOKBACK_BLOCKS : 0n;
+
+    const logs = await this.publicClient.getContractEvents({
+      ...this.contract,
+      eventName: "InstantWinRefund",
+      args: { player: this.playerAddress, gameId },
+      fromBlock,
+      toBlock: latestBlock,
+    });
+
+    const log = logs[logs.length - 1];
+    if (!log) {
+      return null;
+    }
+
+    return { tokensRefunded: log.args.tokensRefunded!, transactionHash: log.transactionHash };
+  }
+
+  /**
+   * Get player statistics
+   */
+  async getPlayerStats(): Promise<PlayerStats> {
+    try {
+      const result = await this.publicClient.readContract({
+        ...this.contract,
+        functionName: "getStats",
+        args: [this.playerAddress],
+      });
+
+      return this.toPlayerStats(result);
+    } catch (error) {
+      console.error("❌ Failed to get player stats:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Decode the getStats(address) tuple
+   */
+  private toPlayerStats(result: BlackjackReadResult<"getStats">): PlayerStats {
+    const [gamesPlayed, gamesWon, gamesLost, gamesPushed, playerBusts] = result;
+
+    const winRate =
+      gamesPlayed > 0n ? Number((gamesWon * 100n) / gamesPlayed) / 100 : 0;
+
+    return {
+      gamesPlayed,
+      gamesWon,
+      gamesLost,
+      gamesPushed,
+      playerBusts,
+      winRate,
+    };
+  }
+
+  /**
+   * Game ids the contract associates with our player
+   * Only the current (or most recent) game; older ones come from findGameIds()
+   */
+  async getPlayerGameIds(): Promise<bigint[]> {
+    try {
+      const result = await this.publicClient.readContract({
+        ...this.contract,
+        functionName: "getPlayerGameIds",
+        args: [this.playerAddress],
+      });
+      return [...result];
+    } catch (error) {
+      console.error("❌ Failed to get player game ids:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Block the contract was deployed in (see findDeploymentBlock)
+   */
+  getDeploymentBlock(): Promise<bigint> {
+    return findDeploymentBlock(this.contractAddress, this.publicClient);
+  }
+
+  /**
+   * Ids of games we started (GameStarted) or bought market shares in (SharesPurchased)
+   * between two blocks, scanned in LOG_CHUNK_BLOCKS ranges
+   */
+  async findGameIds(fromBlock: bigint, toBlock: bigint): Promise<bigint[]> {
+    const gameIds = new Set<bigint>();
+
+    for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_BLOCKS) {
+      const end = start + LOG_CHUNK_BLOCKS - 1n < toBlock ? start + LOG_CHUNK_BLOCKS - 1n : toBlock;
+
+      const [started, purchased] = await Promise.all([
+        this.publicClient.getContractEvents({
+          ...this.contract,
+          eventName: "GameStarted",
+          args: { player: this.playerAddress },
+          fromBlock: start,
+          toBlock: end,
+        }),
+        this.publicClient.getContractEvents({
+          ...this.contract,
+          eventName: "SharesPurchased",
+          args: { buyer: this.playerAddress },
+          fromBlock: start,
+          toBlock: end,
+        }),
+      ]);
+
+      for (const log of [...started, ...purchased]) {
+        gameIds.add(log.args.gameId!);
+      }
+    }
+
+    return Array.from(gameIds);
+  }
+
+  /**
+   * Latest block number
+   */
+  async getBlockNumber(): Promise<bigint> {
+    return this.publicClient.getBlockNumber();
+  }
+
+  /**
+   * Check claimable winnings for a specific game
+   */
+  async getClaimableAmount(gameId: bigint): Promise<bigint> {
+    try {
+      const result = await this.publicClient.readContract({
+        ...this.contract,
+        functionName: "getClaimableAmount",
+        args: [gameId, this.playerAddress],
+      });
+
+      return result;
+    } catch (error) {
+      console.error("❌ Failed to check claimable amount:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if game is in a state where we need to wait for VRF
+   */
+  isWaitingForVRF(state: HandState): boolean {
+    return isPendingState(state);
+  }
+
+  /**
+   * Check if game is complete
+   */
+  isGameComplete(state: HandState): boolean {
+    return isFinishedState(state);
+  }
+
+  /**
+   * Get the player wallet's ETH balance
+   */
+  async getBalance(): Promise<bigint> {
+    try {
+      const balance = await this.publicClient.getBalance({ address: this.playerAddress as `0x${string}` });
+      return balance;
+    } catch (error) {
+      console.error("❌ Failed to get balance:", error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Create a reader for a player wallet (defaults to AI_WALLET)
+ */
+export function createReader(playerAddress: string | undefined = process.env.AI_WALLET): BlackjackReader {
+  if (!playerAddress) {
+    throw new Error("AI_WALLET not set in environment");
+  }
+
+  const contractAddress = process.env.BLACKJACK_CONTRACT_ADDRESS;
+  if (!contractAddress) {
+    throw new Error("BLACKJACK_CONTRACT_ADDRESS not set in environment");
+  }
+
+  return new BlackjackReader(contractAddress, playerAddress);
+}
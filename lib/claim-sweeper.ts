@@ -0,0 +1,297 @@
+/**
+ * Claim Sweeper
+ *
+ * The game loop only claims the game it just played, but market shares can
+ * leave winnings on older games too. The sweeper collects every game id for
+ * the wallet (getPlayerGameIds plus GameStarted / SharesPurchased logs,
+ * scanned incrementally from the contract's deployment block), checks each
+ * one's claimable amount and claims all of them in one pass. The game ids and
+ * the scan cursor are saved per wallet, so a restart picks up where the last
+ * scan stopped. The smart wallet sends one call per user operation and
+ * claimWinnings pays msg.sender, so each claim is its own transaction.
+ * Uses Node.js 'fs', keep it out of client code.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { BlackjackRPCClient } from "./rpc-client";
+
+// How often a sweep is due (0 disables the schedule; sessions still sweep first)
+export const CLAIM_SWEEP_INTERVAL_MINUTES = parseInt(process.env.CLAIM_SWEEP_INTERVAL_MINUTES || "30", 10);
+
+// First block of the log scan; defaults to the contract's deployment block (see findDeploymentBlock)
+const CLAIM_SWEEP_FROM_BLOCK = process.env.CLAIM_SWEEP_FROM_BLOCK ? BigInt(process.env.CLAIM_SWEEP_FROM_BLOCK) : null;
+
+// Only if the deployment block can't be found (no archive endpoint): how far back the first scan looks
+const CLAIM_SWEEP_LOOKBACK_BLOCKS = BigInt(process.env.CLAIM_SWEEP_LOOKBACK_BLOCKS || "100000");
+
+// Blocks scanned between cursor saves, so a failed catch-up scan keeps its progress
+const CLAIM_SWEEP_SCAN_WINDOW = 100000n;
+
+const CLAIM_SWEEP_FILE = process.env.CLAIM_SWEEP_FILE || path.join("data", "claim-sweep.json");
+
+/**
+ * Sweep state file for one player wallet, e.g. data/claim-sweep-0xabc....json
+ */
+export function claimSweepFileFor(playerAddress: string): string {
+  const { dir, name, ext } = path.parse(CLAIM_SWEEP_FILE);
+  return path.join(dir, `${name}-${playerAddress.toLowerCase()}${ext}`);
+}
+
+// Saved scan progress (bigints as strings for JSON)
+interface ClaimSweepState {
+  scannedToBlock: string;
+  gameIds: string[];
+}
+
+export interface ClaimedGame {
+  gameId: string;
+  amountWei: string;
+  transactionHash: string;
+}
+
+// Claim that was only simulated (dry-run mode)
+export interface SimulatedClaim {
+  gameId: string;
+  amountWei: string;
+}
+
+export interface FailedClaim {
+  gameId: string;
+  amountWei: string;
+  error: string;
+}
+
+// Outcome of one sweep (bigints as strings for JSON)
+export interface ClaimSweepReport {
+  reason: "session" | "schedule" | "manual";
+  gamesChecked: number;
+  scannedToBlock: string;
+  claimed: ClaimedGame[];
+  simulated: SimulatedClaim[];
+  failed: FailedClaim[];
+  totalClaimedWei: string;
+  startedAt: number;
+  finishedAt: number;
+}
+
+// Running totals across sweeps since the process started
+export interface ClaimSweepTotals {
+  sweeps: number;
+  gamesClaimed: number;
+  totalClaimedWei: string;
+  lastSweepAt: number | null;
+}
+
+/**
+ * Finds and claims unclaimed winnings across all of a wallet's games
+ */
+export class ClaimSweeper {
+  private rpcClient: BlackjackRPCClient;
+  private file: string;
+  private gameIds = new Set<bigint>();
+  private scannedToBlock: bigint | null = null;
+  private sweeping: Promise<ClaimSweepReport> | null = null;
+  private lastReport: ClaimSweepReport | null = null;
+  private totals = { sweeps: 0, gamesClaimed: 0, totalClaimedWei: 0n };
+
+  constructor(rpcClient: BlackjackRPCClient, file: string = CLAIM_SWEEP_FILE) {
+    this.rpcClient = rpcClient;
+    this.file = file;
+    this.load();
+  }
+
+  /**
+   * Run a sweep; a call while one is running waits for that one instead
+   */
+  sweep(reason: ClaimSweepReport["reason"]): Promise<ClaimSweepReport> {
+    if (!this.sweeping) {
+      this.sweeping = this.runSweep(reason).finally(() => {
+        this.sweeping = null;
+      });
+    }
+    return this.sweeping;
+  }
+
+  /**
+   * Whether the schedule says it's time for another sweep
+   */
+  isDue(): boolean {
+    if (CLAIM_SWEEP_INTERVAL_MINUTES <= 0) {
+      return false;
+    }
+    if (!this.lastReport) {
+      return true;
+    }
+    return Date.now() - this.lastReport.finishedAt >= CLAIM_SWEEP_INTERVAL_MINUTES * 60 * 1000;
+  }
+
+  /**
+   * Whether a sweep is running
+   */
+  isSweeping(): boolean {
+    return this.sweeping !== null;
+  }
+
+  /**
+   * Most recent sweep, null if none has run
+   */
+  getLastReport(): ClaimSweepReport | null {
+    return this.lastReport;
+  }
+
+  /**
+   * Totals across all sweeps
+   */
+  getTotals(): ClaimSweepTotals {
+    return {
+      sweeps: this.totals.sweeps,
+      gamesClaimed: this.totals.gamesClaimed,
+      totalClaimedWei: this.totals.totalClaimedWei.toString(),
+      lastSweepAt: this.lastReport?.finishedAt ?? null,
+    };
+  }
+
+  /**
+   * Discover game ids, then claim every game with a balance
+   */
+  private async runSweep(reason: ClaimSweepReport["reason"]): Promise<ClaimSweepReport> {
+    const startedAt = Date.now();
+    console.log(`🧹 Sweeping unclaimed winnings (${reason})...`);
+
+    await this.discoverGameIds();
+
+    const claimed: ClaimedGame[] = [];
+    const simulated: SimulatedClaim[] = [];
+    const failed: FailedClaim[] = [];
+    let totalClaimed = 0n;
+
+    for (const gameId of Array.from(this.gameIds)) {
+      let amount = 0n;
+      try {
+        amount = await this.rpcClient.getClaimableAmount(gameId);
+        if (amount === 0n) {
+          continue;
+        }
+
+        console.log(`💰 Game ${gameId} has ${amount} wei claimable`);
+        const transactionHash = await this.rpcClient.claimWinnings(gameId);
+        if (transactionHash === null) {
+          simulated.push({ gameId: gameId.toString(), amountWei: amount.toString() });
+          continue;
+        }
+        claimed.push({ gameId: gameId.toString(), amountWei: amount.toString(), transactionHash });
+        totalClaimed += amount;
+      } catch (error) {
+        // Keep sweeping the rest, the next sweep retries this one
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️  Failed to claim game ${gameId}: ${message}`);
+        failed.push({ gameId: gameId.toString(), amountWei: amount.toString(), error: message });
+      }
+    }
+
+    const report: ClaimSweepReport = {
+      reason,
+      gamesChecked: this.gameIds.size,
+      scannedToBlock: (this.scannedToBlock ?? 0n).toString(),
+      claimed,
+      simulated,
+      failed,
+      totalClaimedWei: totalClaimed.toString(),
+      startedAt,
+      finishedAt: Date.now(),
+    };
+
+    this.lastReport = report;
+    this.totals.sweeps++;
+    this.totals.gamesClaimed += claimed.length;
+    this.totals.totalClaimedWei += totalClaimed;
+
+    console.log(
+      `🧹 Sweep done: ${report.gamesChecked} games checked, ${claimed.length} claimed (${totalClaimed} wei), ` +
+        `${simulated.length} simulated, ${failed.length} failed`
+    );
+    return report;
+  }
+
+  /**
+   * Add game ids from the contract and from logs since the last scan
+   */
+  private async discoverGameIds(): Promise<void> {
+    for (const gameId of await this.rpcClient.getPlayerGameIds()) {
+      this.gameIds.add(gameId);
+    }
+
+    const latestBlock = await this.rpcClient.getBlockNumber();
+    const fromBlock = this.scannedToBlock !== null ? this.scannedToBlock + 1n : await this.firstScanBlock(latestBlock);
+
+    for (let start = fromBlock; start <= latestBlock; start += CLAIM_SWEEP_SCAN_WINDOW) {
+      const end = start + CLAIM_SWEEP_SCAN_WINDOW - 1n < latestBlock ? start + CLAIM_SWEEP_SCAN_WINDOW - 1n : latestBlock;
+      for (const gameId of await this.rpcClient.findGameIds(start, end)) {
+        this.gameIds.add(gameId);
+      }
+      this.scannedToBlock = end;
+      this.save();
+    }
+  }
+
+  /**
+   * Where the first scan starts: CLAIM_SWEEP_FROM_BLOCK, else the deployment block,
+   * else (no archive endpoint) CLAIM_SWEEP_LOOKBACK_BLOCKS back
+   */
+  private async firstScanBlock(latestBlock: bigint): Promise<bigint> {
+    if (CLAIM_SWEEP_FROM_BLOCK !== null) {
+      return CLAIM_SWEEP_FROM_BLOCK;
+    }
+
+    try {
+      return await this.rpcClient.getDeploymentBlock();
+    } catch (error) {
+      const fromBlock = latestBlock > CLAIM_SWEEP_LOOKBACK_BLOCKS ? latestBlock - CLAIM_SWEEP_LOOKBACK_BLOCKS : 0n;
+      console.warn(
+        `⚠️  Couldn't find the contract's deployment block, scanning from block ${fromBlock} only ` +
+          `(set CLAIM_SWEEP_FROM_BLOCK or BLACKJACK_DEPLOYMENT_BLOCK to cover its whole history):`,
+        error instanceof Error ? error.message : error
+      );
+      return fromBlock;
+    }
+  }
+
+  /**
+   * Restore game ids and the scan cursor from the state file
+   */
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.file)) {
+        return;
+      }
+      const state = JSON.parse(fs.readFileSync(this.file, "utf8")) as ClaimSweepState;
+      this.scannedToBlock = BigInt(state.scannedToBlock);
+      for (const gameId of state.gameIds) {
+        this.gameIds.add(BigInt(gameId));
+      }
+    } catch (error) {
+      console.warn("⚠️  Failed to read claim sweep state, rescanning:", error);
+    }
+  }
+
+  /**
+   * Save game ids and the scan cursor (never throws)
+   */
+  private save(): void {
+    if (this.scannedToBlock === null) {
+      return;
+    }
+
+    const state: ClaimSweepState = {
+      scannedToBlock: this.scannedToBlock.toString(),
+      gameIds: Array.from(this.gameIds, (gameId) => gameId.toString()),
+    };
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.writeFileSync(this.file, JSON.stringify(state, null, 2));
+    } catch (error) {
+      console.error("⚠️  Failed to save claim sweep state:", error);
+    }
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Contract Errors
+ *
+ * Typed errors for the player-facing require() messages in Blackjack.sol.
+ * Transactions are simulated before they are sent; a revert is decoded and
+ * raised as one of these classes so callers can branch on the cause instead
+ * of matching error text. Reverts without a dedicated class come back as the
+ * ContractRevertError base class.
+ */
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  InsufficientFundsError as ViemInsufficientFundsError,
+  decodeErrorResult,
+  isHex,
+} from "viem";
+import type { ContractAction } from "./rpc-client";
+
+// Player-facing require() messages from Blackjack.sol, used to recognize reverts in error text
+const KNOWN_REVERT_REASONS = [
+  "Insufficient start game fee",
+  "Claim previous winnings first",
+  "Game already active",
+  "Cannot hit: game not active",
+  "Cannot hit: no cards dealt yet",
+  "Cannot hit: trading period active",
+  "Cannot hit: cooldown active",
+  "Cannot hit: already at 21",
+  "Cannot stand: game not active",
+  "Cannot stand: no cards dealt yet",
+  "Cannot stand: trading period active",
+  "Nothing to claim",
+  "VRF timeout not reached yet",
+  "Game not waiting for VRF",
+  "Reentrant call",
+];
+
+// Node and bundler wording for a sender that can't cover value + gas
+const INSUFFICIENT_FUNDS_PATTERN = /insufficient funds|insufficient balance|exceeds balance/i;
+
+/**
+ * A contract call that reverted (or would have), with its decoded require() message
+ */
+export class ContractRevertError extends Error {
+  readonly action: ContractAction;
+  readonly reason: string | null;
+
+  constructor(action: ContractAction, reason: string | null, message?: string) {
+    super(message ?? `${action} reverted: ${reason ?? "unknown reason"}`);
+    this.name = new.target.name;
+    this.action = action;
+    this.reason = reason;
+  }
+}
+
+// A finished game still has winnings to claim ("Claim previous winnings first")
+export class NeedsClaimError extends ContractRevertError {}
+
+// The wallet already has a game in progress ("Game already active")
+export class GameActiveError extends ContractRevertError {}
+
+// The value sent is below startGameFee ("Insufficient start game fee")
+export class FeeTooLowError extends ContractRevertError {}
+
+// Hit/stand before the prediction market's trading period ended
+export class TradingPeriodActiveError extends ContractRevertError {}
+
+// Hit before minActionDelay passed since the last action
+export class CooldownActiveError extends ContractRevertError {}
+
+// The wallet can't pay the value plus gas
+export class InsufficientFundsError extends ContractRevertError {
+  constructor(action: ContractAction, message?: string) {
+    super(action, null, message ?? `${action} rejected: insufficient funds`);
+  }
+}
+
+/**
+ * Typed error for a failed call or send, null if it wasn't a revert (network errors and the like)
+ */
+export function toContractError(action: ContractAction, error: unknown): ContractRevertError | null {
+  const reason = decodeRevertReason(error);
+  if (reason === null) {
+    if (isInsufficientFunds(error)) {
+      return new InsufficientFundsError(action);
+    }
+    return isRevert(error) ? new ContractRevertError(action, null) : null;
+  }
+
+  switch (reason) {
+    case "Claim previous winnings first":
+      return new NeedsClaimError(action, reason);
+    case "Game already active":
+      return new GameActiveError(action, reason);
+    case "Insufficient start game fee":
+      return new FeeTooLowError(action, reason);
+    case "Cannot hit: trading period active":
+    case "Cannot stand: trading period active":
+      return new TradingPeriodActiveError(action, reason);
+    case "Cannot hit: cooldown active":
+      return new CooldownActiveError(action, reason);
+    default:
+      return new ContractRevertError(action, reason);
+  }
+}
+
+/**
+ * Extract a revert reason from a viem or bundler error
+ */
+export function decodeRevertReason(error: unknown): string | null {
+  if (error instanceof BaseError) {
+    const revertError = error.walk((e) => e instanceof ContractFunctionRevertedError);
+    if (revertError instanceof ContractFunctionRevertedError && revertError.reason) {
+      return revertError.reason;
+    }
+
+    // eth_call failures carry the raw Error(string) data instead, on whichever cause
+    // kept the node's response (RawContractError, or the RpcRequestError under ExecutionRevertedError)
+    const data = (error.walk((e) => isHex((e as { data?: unknown }).data)) as { data?: `0x${string}` } | null)?.data;
+    if (data && data !== "0x") {
+      try {
+        const decoded = decodeErrorResult({ data });
+        if (decoded.errorName === "Error") {
+          return String(decoded.args[0]);
+        }
+      } catch {
+        // Custom error we have no ABI for, fall through to the message text
+      }
+    }
+  }
+
+  // Bundler errors only carry the reason inside the message text
+  const message = error instanceof Error ? error.message : String(error);
+  const known = KNOWN_REVERT_REASONS.find((reason) => message.includes(reason));
+  if (known) {
+    return known;
+  }
+
+  const match = message.match(/reverted with (?:the following )?reason:\s*(.+)/i);
+  return match ? match[1].split("\n")[0].trim() : null;
+}
+
+function isInsufficientFunds(error: unknown): boolean {
+  if (error instanceof BaseError && error.walk((e) => e instanceof ViemInsufficientFundsError)) {
+    return true;
+  }
+  return INSUFFICIENT_FUNDS_PATTERN.test(error instanceof Error ? error.message : String(error));
+}
+
+function isRevert(error: unknown): boolean {
+  if (error instanceof BaseError && error.walk((e) => e instanceof ContractFunctionRevertedError)) {
+    return true;
+  }
+  return /execution reverted/i.test(error instanceof Error ? error.message : String(error));
+}
@@ -0,0 +1,88 @@
+/**
+ * Contract Types
+ *
+ * Enums and structs mirrored from Blackjack.sol. Struct types are inferred from
+ * the generated ABI, so they change with it. No runtime dependencies, so both
+ * server code and client components can import them.
+ */
+
+import type { ContractFunctionName, ContractFunctionReturnType } from "viem";
+import type { BlackjackAbi } from "./blackjack-abi";
+
+// HandState enum from contract (stored in games(address).state)
+export enum HandState {
+  Inactive = 0,
+  PendingInitialDeal = 1,
+  Active = 2,
+  PendingHit = 3,
+  PendingStand = 4,
+  Busted = 5,
+  Finished = 6,
+}
+
+// GameResult enum from contract (GameResolved.marketResult)
+// Named MarketResult here to avoid clashing with the game loop's GameResult
+export enum MarketResult {
+  Pending = 0,
+  Win = 1,
+  Lose = 2,
+  Push = 3,
+}
+
+// Public `games(address)` getter (dynamic arrays are omitted by Solidity)
+export interface OnChainGame {
+  player: string;
+  gameId: bigint;
+  startedAt: bigint;
+  lastActionAt: bigint;
+  vrfRequestTime: bigint;
+  tradingPeriodEnds: bigint;
+  tokensHeld: bigint;
+  state: HandState;
+}
+
+// Return type of a Blackjack view function
+export type BlackjackReadResult<F extends ContractFunctionName<BlackjackAbi, "view" | "pure">> =
+  ContractFunctionReturnType<BlackjackAbi, "view" | "pure", F>;
+
+// getGameDisplay(player) struct
+export type ContractGameDisplay = BlackjackReadResult<"getGameDisplay">;
+
+// One card as getGameDisplay shows it
+export type CardDisplay = ContractGameDisplay["playerCards"][number];
+
+// The contract's _getCardDisplay tables: cardId % 13 → A, 2..10, J, Q, K; cardId / 13 → suit
+export const CARD_RANKS: readonly string[] = ["A", "2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K"];
+export const CARD_SUITS: readonly string[] = ["Clubs", "Diamonds", "Hearts", "Spades"];
+
+// getMarketDisplay(gameId, user) struct: the game's prediction market and our position in it
+export type MarketDisplay = Omit<BlackjackReadResult<"getMarketDisplay">, "result"> & { result: MarketResult };
+
+// Decoded GameResolved event
+export interface GameResolution {
+  gameId: bigint;
+  result: string; // e.g. "Bust", "Player wins", "Blackjack! (No Market)"
+  playerValue: number;
+  dealerValue: number;
+  marketResult: MarketResult;
+  transactionHash: string | null;
+  blockNumber: bigint | null;
+}
+
+/**
+ * Waiting on a VRF callback
+ */
+export function isPendingState(state: HandState): boolean {
+  return (
+    state === HandState.PendingInitialDeal ||
+    state === HandState.PendingHit ||
+    state === HandState.PendingStand
+  );
+}
+
+/**
+ * Hand is over (resolved or busted)
+ */
+export function isFinishedState(state: HandState): boolean {
+  return state === HandState.Busted || state === HandState.Finished;
+}
@@ -0,0 +1,78 @@
+/**
+ * Decision Audit Log (Node.js Runtime Only)
+ *
+ * Persists every hit/stand decision as one JSON line so play quality can be
+ * reviewed after the fact. Uses Node.js 'fs', keep it out of client code.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { DecisionRecord } from "./game-loop";
+
+const DECISION_LOG_FILE = process.env.DECISION_LOG_FILE || path.join("data", "decisions.jsonl");
+
+export interface DecisionQuery {
+  player?: string;
+  gameId?: string;
+  limit?: number;
+}
+
+export interface DecisionSummary {
+  decisions: number;
+  deviations: number;
+  deviationRate: number;
+  totalEvCost: number; // Sum of EV given up by deviations, in bet units
+}
+
+/**
+ * Append a decision to the log
+ */
+export function appendDecision(record: DecisionRecord): void {
+  try {
+    fs.mkdirSync(path.dirname(DECISION_LOG_FILE), { recursive: true });
+    fs.appendFileSync(DECISION_LOG_FILE, JSON.stringify(record) + "\n");
+  } catch (error) {
+    // Never let audit logging interrupt play
+    console.error("⚠️  Failed to write decision log:", error);
+  }
+}
+
+/**
+ * Read decisions from the log, newest last
+ */
+export function readDecisions(query: DecisionQuery = {}): DecisionRecord[] {
+  if (!fs.existsSync(DECISION_LOG_FILE)) {
+    return [];
+  }
+
+  const records: DecisionRecord[] = [];
+  const lines = fs.readFileSync(DECISION_LOG_FILE, "utf8").split("\n");
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as DecisionRecord;
+      if (query.player && record.player !== query.player) continue;
+      if (query.gameId && record.gameId !== query.gameId) continue;
+      records.push(record);
+    } catch {
+      console.warn("⚠️  Skipping malformed decision log line");
+    }
+  }
+
+  return query.limit ? records.slice(-query.limit) : records;
+}
+
+/**
+ * Summarize play quality over a set of decisions
+ */
+export function summarizeDecisions(records: DecisionRecord[]): DecisionSummary {
+  const deviations = records.filter((record) => record.deviated);
+
+  return {
+    decisions: records.length,
+    deviations: deviations.length,
+    deviationRate: records.length > 0 ? deviations.length / records.length : 0,
+    totalEvCost: deviations.reduce((sum, record) => sum + record.evCost, 0),
+  };
+}
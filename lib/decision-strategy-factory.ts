@@ -0,0 +1,27 @@
+/**
+ * Decision Strategy Factory (Node.js Runtime Only)
+ *
+ * Creates decision strategies by name.
+ * Separated from decision-strategy.ts because the AI strategies need the
+ * server-side OpenAI key, while the game loop types are also used client-side.
+ */
+
+import { OptimalStrategy, TableStrategy, DEFAULT_STRATEGY } from "./decision-strategy";
+import type { DecisionStrategy, StrategyName } from "./decision-strategy";
+import { AIStrategy, HybridStrategy } from "./ai-decision";
+
+/**
+ * Create a decision strategy instance
+ */
+export function createDecisionStrategy(name: StrategyName = DEFAULT_STRATEGY): DecisionStrategy {
+  switch (name) {
+    case "optimal":
+      return new OptimalStrategy();
+    case "table":
+      return new TableStrategy();
+    case "ai":
+      return new AIStrategy();
+    case "hybrid":
+      return new HybridStrategy();
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Decision Strategies
+ *
+ * Pluggable hit/stand decision makers used by the game loop.
+ * This file only holds strategies with no server dependencies so it can be
+ * imported anywhere; LLM-backed strategies live in ai-decision.ts.
+ */
+
+import { analyzeHand } from "./optimal-strategy";
+import type { PlayerAction } from "./optimal-strategy";
+import type { CardDisplay } from "./rpc-client";
+
+export type StrategyName = "optimal" | "table" | "ai" | "hybrid";
+
+export const STRATEGY_NAMES: StrategyName[] = ["optimal", "table", "ai", "hybrid"];
+
+export const DEFAULT_STRATEGY: StrategyName = "optimal";
+
+// Exact EV of a fresh hand in bet units: freshHandEv in optimal-strategy.ts over every initial
+// deal, naturals scoring 0 (reproduce with `npm run fresh-hand-ev`, pinned by the tests).
+// Backtests agree within their standard error. LLM strategies have no fixed figure.
+export const FRESH_HAND_EV: Partial<Record<StrategyName, number>> = {
+  optimal: -0.0046,
+  table: -0.0856,
+};
+
+// Everything a strategy can see when deciding
+export interface DecisionContext {
+  playerCards: readonly CardDisplay[];
+  playerTotal: number;
+  dealerCards: readonly CardDisplay[];
+  dealerTotal: number;
+  canHit: boolean;
+  canStand: boolean;
+}
+
+export interface Decision {
+  action: PlayerAction;
+  confidence?: number; // 0-1, reported by LLM strategies
+  rationale?: string;
+}
+
+export interface DecisionStrategy {
+  readonly name: StrategyName;
+  decide(context: DecisionContext): Promise<Decision>;
+}
+
+/**
+ * Check if a value is a known strategy name
+ */
+export function isStrategyName(value: unknown): value is StrategyName {
+  return typeof value === "string" && STRATEGY_NAMES.includes(value as StrategyName);
+}
+
+/**
+ * Exact full-information strategy (see optimal-strategy.ts)
+ */
+export class OptimalStrategy implements DecisionStrategy {
+  readonly name: StrategyName = "optimal";
+
+  async decide(context: DecisionContext): Promise<Decision> {
+    const analysis = analyzeHand(context.playerCards, context.dealerCards);
+    return { action: analysis.best };
+  }
+}
+
+// Table lookup result; marginal cells are close calls the hybrid strategy escalates
+export interface TableLookup {
+  action: PlayerAction;
+  marginal: boolean;
+}
+
+/**
+ * Classic hit/stand basic strategy keyed on the dealer's upcard.
+ * Deliberately ignores the hole card so it behaves like a conventional table.
+ */
+export class TableStrategy implements DecisionStrategy {
+  readonly name: StrategyName = "table";
+
+  async decide(context: DecisionContext): Promise<Decision> {
+    return { action: this.lookup(context).action };
+  }
+
+  /**
+   * Look up the table cell for the current hand
+   */
+  lookup(context: DecisionContext): TableLookup {
+    const upcard = context.dealerCards[0]?.value || 10; // Ace = 11, faces = 10
+    const total = context.playerTotal;
+    const soft = this.isSoft(context.playerCards, total);
+
+    if (total >= 21) return { action: "stand", marginal: false };
+
+    if (soft) {
+      if (total <= 17) return { action: "hit", marginal: total === 17 && upcard <= 6 };
+      if (total === 18) {
+        return upcard >= 9
+          ? { action: "hit", marginal: true }
+          : { action: "stand", marginal: upcard === 8 };
+      }
+      return { action: "stand", marginal: false };
+    }
+
+    if (total <= 11) return { action: "hit", marginal: false };
+    if (total === 12) {
+      return upcard >= 4 && upcard <= 6
+        ? { action: "stand", marginal: upcard === 4 }
+        : { action: "hit", marginal: upcard <= 3 };
+    }
+    if (total <= 16) {
+      return upcard <= 6
+        ? { action: "stand", marginal: total === 13 && upcard === 2 }
+        : { action: "hit", marginal: total === 16 && upcard === 10 };
+    }
+    return { action: "stand", marginal: false };
+  }
+
+  /**
+   * A hand is soft when an ace is still being counted as 11
+   */
+  private isSoft(cards: readonly CardDisplay[], total: number): boolean {
+    const hardTotal = cards.reduce((sum, card) => sum + (card.rank === "A" ? 1 : Math.min(card.value, 10)), 0);
+    return cards.some((card) => card.rank === "A") && hardTotal + 10 === total;
+  }
+}
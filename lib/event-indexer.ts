@@ -0,0 +1,644 @@
+/**
+ * Event Indexer (Node.js Runtime Only)
+ *
+ * Backfills and tails Blackjack.sol events into a local SQLite database so
+ * game history can be queried by player, time range and outcome. Raw events
+ * are stored as they are; each touched game's row is rebuilt from its events.
+ * The hash of recent indexed blocks is kept, and if the chain no longer has
+ * one of them the indexer rolls back to the last block that still matches
+ * and re-indexes from there. The first sync starts at the contract's
+ * deployment block. Uses better-sqlite3, keep it out of client code.
+ */
+
+import Database from "better-sqlite3";
+import * as fs from "fs";
+import * as path from "path";
+import type { Log, PublicClient } from "viem";
+import { blackjackAbi } from "./blackjack-contract";
+import { findDeploymentBlock, getReadClient } from "./chain-reader";
+import { MarketResult } from "./contract-types";
+
+const INDEXER_DB_FILE = process.env.INDEXER_DB_FILE || path.join("data", "indexer.db");
+
+// Start the indexer with the first player or history request
+export const INDEXER_ENABLED = process.env.INDEXER_ENABLED !== "false";
+
+// How often the indexer checks for new blocks once caught up
+const INDEXER_POLL_INTERVAL_MS = parseInt(process.env.INDEXER_POLL_INTERVAL_MS || "5000", 10);
+
+// First block to index; defaults to the contract's deployment block (see findDeploymentBlock)
+const INDEXER_FROM_BLOCK = process.env.INDEXER_FROM_BLOCK ? BigInt(process.env.INDEXER_FROM_BLOCK) : null;
+
+// Largest block range per eth_getLogs request
+const INDEXER_CHUNK_BLOCKS = BigInt(process.env.INDEXER_CHUNK_BLOCKS || "2000");
+
+// Deepest reorg the indexer can roll back (block hashes kept this far behind the tip)
+const INDEXER_REORG_DEPTH = parseInt(process.env.INDEXER_REORG_DEPTH || "64", 10);
+
+// Block headers fetched in parallel for event timestamps
+const BLOCK_FETCH_BATCH = 10;
+
+export const INDEXED_EVENTS = [
+  "GameStarted",
+  "PlayerHit",
+  "GameResolved",
+  "SharesPurchased",
+  "SharesSold",
+  "WinningsClaimed",
+  "GameCancelled",
+  "GameForceResolved",
+] as const;
+
+export type IndexedEventName = (typeof INDEXED_EVENTS)[number];
+
+export const GAME_OUTCOMES = ["pending", "win", "lose", "push", "bust", "cancelled"] as const;
+
+export type GameOutcome = (typeof GAME_OUTCOMES)[number];
+
+// One stored event (bigints as strings for JSON)
+export interface IndexedEvent {
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  eventName: IndexedEventName;
+  gameId: string;
+  account: string; // Player, buyer, seller or claimer (lowercased)
+  args: Record<string, string | number | boolean>;
+  timestamp: number; // Unix seconds of the block
+}
+
+// A game as rebuilt from its events
+export interface IndexedGame {
+  gameId: string;
+  player: string;
+  outcome: GameOutcome;
+  result: string | null; // GameResolved result text, e.g. "Bust", "Blackjack! (No Market)"
+  playerValue: number | null;
+  dealerValue: number | null;
+  hits: number;
+  feeIn: string; // ETH paid to start (wei)
+  tokensReceived: string; // wASS stake bought with it
+  sharesPurchased: number;
+  sharesSold: number;
+  marketVolume: string; // wASS in from purchases plus out from sales
+  claimed: string; // wASS claimed by anyone
+  forceResolved: boolean;
+  startedAt: number | null; // Unix seconds
+  resolvedAt: number | null;
+  startedBlock: number | null;
+  resolvedBlock: number | null;
+}
+
+export interface GameQuery {
+  player?: string;
+  from?: number; // Started at or after (unix seconds)
+  to?: number; // Started at or before (unix seconds)
+  outcome?: GameOutcome;
+  limit?: number;
+  offset?: number;
+}
+
+export interface IndexerStatus {
+  running: boolean;
+  syncing: boolean;
+  lastIndexedBlock: string | null;
+  headBlock: string | null;
+  games: number;
+  events: number;
+  reorgs: number;
+  lastSyncAt: number | null;
+  lastError: string | null;
+}
+
+type DecodedLog = Log & { eventName?: string; args?: Record<string, unknown> };
+
+interface GameRow {
+  game_id: string;
+  player: string;
+  outcome: GameOutcome;
+  result: string | null;
+  player_value: number | null;
+  dealer_value: number | null;
+  hits: number;
+  fee_in: string;
+  tokens_received: string;
+  shares_purchased: number;
+  shares_sold: number;
+  market_volume: string;
+  claimed: string;
+  force_resolved: number;
+  started_at: number | null;
+  resolved_at: number | null;
+  started_block: number | null;
+  resolved_block: number | null;
+}
+
+interface EventRow {
+  block_number: number;
+  log_index: number;
+  transaction_hash: string;
+  event_name: IndexedEventName;
+  game_id: string;
+  account: string;
+  args: string;
+  timestamp: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    event_name TEXT NOT NULL,
+    game_id TEXT NOT NULL,
+    account TEXT NOT NULL,
+    args TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_game ON events (game_id);
+  CREATE TABLE IF NOT EXISTS games (
+    game_id TEXT PRIMARY KEY,
+    player TEXT NOT NULL,
+    outcome TEXT NOT NULL,
+    result TEXT,
+    player_value INTEGER,
+    dealer_value INTEGER,
+    hits INTEGER NOT NULL,
+    fee_in TEXT NOT NULL,
+    tokens_received TEXT NOT NULL,
+    shares_purchased INTEGER NOT NULL,
+    shares_sold INTEGER NOT NULL,
+    market_volume TEXT NOT NULL,
+    claimed TEXT NOT NULL,
+    force_resolved INTEGER NOT NULL,
+    started_at INTEGER,
+    resolved_at INTEGER,
+    started_block INTEGER,
+    resolved_block INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS games_player ON games (player, started_at);
+  CREATE INDEX IF NOT EXISTS games_outcome ON games (outcome, started_at);
+`;
+
+/**
+ * Indexes Blackjack events into SQLite and answers history queries
+ */
+export class EventIndexer {
+  private dbFile: string;
+  private contractAddress: string | undefined;
+  private publicClient: PublicClient | null = null;
+  private db: Database.Database | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private stopRequested = false;
+  private syncing: Promise<void> | null = null;
+  private headBlock: bigint | null = null;
+  private reorgs = 0;
+  private lastSyncAt: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(
+    dbFile: string = INDEXER_DB_FILE,
+    contractAddress: string | undefined = process.env.BLACKJACK_CONTRACT_ADDRESS,
+    publicClient: PublicClient | null = null // Defaults to the shared RPC pool client
+  ) {
+    this.dbFile = dbFile;
+    this.contractAddress = contractAddress;
+    this.publicClient = publicClient;
+  }
+
+  /**
+   * Start backfilling and tailing (no-op if already running)
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.stopRequested = false;
+    console.log(`🗂️  Event indexer started (${this.dbFile})`);
+    this.timer = setInterval(() => {
+      this.sync().catch(() => {
+        // Already recorded in lastError, the next tick retries
+      });
+    }, INDEXER_POLL_INTERVAL_MS);
+    this.sync().catch(() => {});
+  }
+
+  /**
+   * Stop tailing (a sync in progress finishes its current chunk)
+   */
+  stop(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+    this.stopRequested = true;
+    console.log("🗂️  Event indexer stopped");
+  }
+
+  /**
+   * Index up to the chain head; a call while one is running waits for that one
+   */
+  sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Games newest first, filtered by player, start time and outcome
+   */
+  queryGames(query: GameQuery = {}): IndexedGame[] {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {
+      limit: query.limit ?? 100,
+      offset: query.offset ?? 0,
+    };
+
+    if (query.player) {
+      conditions.push("player = @player");
+      params.player = query.player.toLowerCase();
+    }
+    if (query.from !== undefined) {
+      conditions.push("started_at >= @from");
+      params.from = query.from;
+    }
+    if (query.to !== undefined) {
+      conditions.push("started_at <= @to");
+      params.to = query.to;
+    }
+    if (query.outcome) {
+      conditions.push("outcome = @outcome");
+      params.outcome = query.outcome;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.getDb()
+      .prepare(
+        `SELECT * FROM games ${where} ORDER BY started_at DESC, CAST(game_id AS INTEGER) DESC LIMIT @limit OFFSET @offset`
+      )
+      .all(params) as GameRow[];
+
+    return rows.map(toIndexedGame);
+  }
+
+  /**
+   * One game, null if it hasn't been indexed
+   */
+  getGame(gameId: string): IndexedGame | null {
+    const row = this.getDb().prepare("SELECT * FROM games WHERE game_id = ?").get(gameId) as GameRow | undefined;
+    return row ? toIndexedGame(row) : null;
+  }
+
+  /**
+   * A game's events in chain order
+   */
+  getGameEvents(gameId: string): IndexedEvent[] {
+    const rows = this.getDb()
+      .prepare("SELECT * FROM events WHERE game_id = ? ORDER BY block_number, log_index")
+      .all(gameId) as EventRow[];
+    return rows.map(toIndexedEvent);
+  }
+
+  /**
+   * Progress and counters
+   */
+  getStatus(): IndexerStatus {
+    const db = this.getDb();
+    const count = (table: string) => (db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number }).n;
+    const lastIndexed = this.getLastIndexedBlock();
+
+    return {
+      running: this.timer !== null,
+      syncing: this.syncing !== null,
+      lastIndexedBlock: lastIndexed !== null ? lastIndexed.toString() : null,
+      headBlock: this.headBlock !== null ? this.headBlock.toString() : null,
+      games: count("games"),
+      events: count("events"),
+      reorgs: this.reorgs,
+      lastSyncAt: this.lastSyncAt,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Roll back any reorg, then index chunk by chunk up to the head
+   */
+  private async runSync(): Promise<void> {
+    try {
+      if (!this.contractAddress) {
+        throw new Error("BLACKJACK_CONTRACT_ADDRESS not set in environment");
+      }
+
+      await this.handleReorg();
+
+      const head = await this.getClient().getBlockNumber();
+      this.headBlock = head;
+
+      const lastIndexed = this.getLastIndexedBlock();
+      let fromBlock = lastIndexed !== null ? lastIndexed + 1n : await this.firstBlock();
+
+      while (fromBlock <= head) {
+        const toBlock = fromBlock + INDEXER_CHUNK_BLOCKS - 1n < head ? fromBlock + INDEXER_CHUNK_BLOCKS - 1n : head;
+        await this.indexRange(fromBlock, toBlock);
+        fromBlock = toBlock + 1n;
+
+        // Stopped mid-backfill: pick up from here on the next start
+        if (this.stopRequested) break;
+      }
+
+      this.lastSyncAt = Date.now();
+      this.lastError = null;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️  Event indexer sync failed: ${this.lastError}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Where the first sync starts: INDEXER_FROM_BLOCK, else the contract's deployment block
+   * Never a partial lookback, so the index holds the whole history or says why it can't
+   */
+  private async firstBlock(): Promise<bigint> {
+    if (INDEXER_FROM_BLOCK !== null) {
+      return INDEXER_FROM_BLOCK;
+    }
+
+    try {
+      return await findDeploymentBlock(this.contractAddress!, this.getClient());
+    } catch (error) {
+      throw new Error(
+        `Couldn't find the contract's deployment block (${error instanceof Error ? error.message : error}); ` +
+          "set INDEXER_FROM_BLOCK or BLACKJACK_DEPLOYMENT_BLOCK"
+      );
+    }
+  }
+
+  /**
+   * Fetch and store one block range's events in a single transaction
+   */
+  private async indexRange(fromBlock: bigint, toBlock: bigint): Promise<void> {
+    const client = this.getClient();
+    const logs = (
+      (await client.getContractEvents({
+        address: this.contractAddress as `0x${string}`,
+        abi: blackjackAbi,
+        fromBlock,
+        toBlock,
+      })) as DecodedLog[]
+    ).filter((log) => INDEXED_EVENTS.includes(log.eventName as IndexedEventName));
+
+    // Headers for event timestamps, plus the range end for reorg detection
+    const blockNumbers = Array.from(new Set([...logs.map((log) => log.blockNumber!), toBlock]));
+    const blocks = new Map<bigint, { hash: string; timestamp: number }>();
+    for (let i = 0; i < blockNumbers.length; i += BLOCK_FETCH_BATCH) {
+      const batch = await Promise.all(
+        blockNumbers.slice(i, i + BLOCK_FETCH_BATCH).map((number) => client.getBlock({ blockNumber: number }))
+      );
+      for (const block of batch) {
+        blocks.set(block.number, { hash: block.hash, timestamp: Number(block.timestamp) });
+      }
+    }
+
+    const db = this.getDb();
+    const insertEvent = db.prepare(
+      `INSERT OR REPLACE INTO events
+        (block_number, log_index, block_hash, transaction_hash, event_name, game_id, account, args, timestamp)
+        VALUES (@blockNumber, @logIndex, @blockHash, @transactionHash, @eventName, @gameId, @account, @args, @timestamp)`
+    );
+    const insertBlock = db.prepare("INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)");
+
+    const touchedGames = new Set<string>();
+    db.transaction(() => {
+      for (const log of logs) {
+        const args = log.args || {};
+        const gameId = String(args.gameId);
+        const block = blocks.get(log.blockNumber!)!;
+        insertEvent.run({
+          blockNumber: Number(log.blockNumber),
+          logIndex: log.logIndex,
+          blockHash: log.blockHash,
+          transactionHash: log.transactionHash,
+          eventName: log.eventName,
+          gameId,
+          account: String(args.player ?? args.buyer ?? args.seller ?? args.claimer ?? "").toLowerCase(),
+          args: JSON.stringify(args, (_key, value) => (typeof value === "bigint" ? value.toString() : value)),
+          timestamp: block.timestamp,
+        });
+        touchedGames.add(gameId);
+      }
+
+      for (const [number, block] of Array.from(blocks)) {
+        insertBlock.run(Number(number), block.hash);
+      }
+      db.prepare("DELETE FROM blocks WHERE number < ?").run(Number(toBlock) - INDEXER_REORG_DEPTH);
+
+      for (const gameId of Array.from(touchedGames)) {
+        this.rebuildGame(gameId);
+      }
+      this.setLastIndexedBlock(toBlock);
+    })();
+
+    if (logs.length > 0) {
+      console.log(`🗂️  Indexed ${logs.length} events in blocks ${fromBlock}-${toBlock} (${touchedGames.size} games)`);
+    }
+  }
+
+  /**
+   * If the newest stored block is no longer on the chain, roll back to the
+   * newest one that is (or the whole reorg window if none match)
+   */
+  private async handleReorg(): Promise<void> {
+    const db = this.getDb();
+    const stored = db.prepare("SELECT number, hash FROM blocks ORDER BY number DESC").all() as {
+      number: number;
+      hash: string;
+    }[];
+    if (stored.length === 0) return;
+
+    // A fork can be shorter than the one we indexed; blocks past its head are gone too
+    const head = await this.getClient().getBlockNumber();
+    let commonBlock: number | null = null;
+    for (const { number, hash } of stored) {
+      if (BigInt(number) > head) continue;
+      const block = await this.getClient().getBlock({ blockNumber: BigInt(number) });
+      if (block.hash === hash) {
+        commonBlock = number;
+        break;
+      }
+    }
+
+    if (commonBlock === stored[0].number) return;
+
+    const rollbackTo = commonBlock ?? stored[stored.length - 1].number - 1;
+    console.warn(`⚠️  Reorg detected, rolling the index back to block ${rollbackTo}`);
+
+    db.transaction(() => {
+      const gameIds = (
+        db.prepare("SELECT DISTINCT game_id FROM events WHERE block_number > ?").all(rollbackTo) as { game_id: string }[]
+      ).map((row) => row.game_id);
+
+      db.prepare("DELETE FROM events WHERE block_number > ?").run(rollbackTo);
+      db.prepare("DELETE FROM blocks WHERE number > ?").run(rollbackTo);
+      for (const gameId of gameIds) {
+        this.rebuildGame(gameId);
+      }
+      this.setLastIndexedBlock(BigInt(rollbackTo));
+    })();
+
+    this.reorgs++;
+  }
+
+  /**
+   * Recompute a game's row from its stored events (deleted if none are left)
+   */
+  private rebuildGame(gameId: string): void {
+    const db = this.getDb();
+    const events = this.getGameEvents(gameId);
+    const started = events.find((event) => event.eventName === "GameStarted");
+    const player = started?.account ?? events.find((event) => "player" in event.args)?.account;
+
+    // Market trades can be indexed before the game's start falls in range; wait for a player
+    if (!player) {
+      db.prepare("DELETE FROM games WHERE game_id = ?").run(gameId);
+      return;
+    }
+
+    const resolved = events.find((event) => event.eventName === "GameResolved");
+    const cancelled = events.some((event) => event.eventName === "GameCancelled");
+    const sum = (name: IndexedEventName, field: string) =>
+      events
+        .filter((event) => event.eventName === name)
+        .reduce((total, event) => total + BigInt(event.args[field] as string), 0n);
+
+    db.prepare(
+      `INSERT OR REPLACE INTO games VALUES (
+        @game_id, @player, @outcome, @result, @player_value, @dealer_value, @hits, @fee_in, @tokens_received,
+        @shares_purchased, @shares_sold, @market_volume, @claimed, @force_resolved,
+        @started_at, @resolved_at, @started_block, @resolved_block
+      )`
+    ).run({
+      game_id: gameId,
+      player,
+      outcome: resolved ? outcomeOf(resolved) : cancelled ? "cancelled" : "pending",
+      result: resolved ? (resolved.args.result as string) : null,
+      player_value: resolved ? Number(resolved.args.playerValue) : null,
+      dealer_value: resolved ? Number(resolved.args.dealerValue) : null,
+      hits: events.filter((event) => event.eventName === "PlayerHit").length,
+      fee_in: String(started?.args.feeIn ?? "0"),
+      tokens_received: String(started?.args.tokensReceived ?? "0"),
+      shares_purchased: events.filter((event) => event.eventName === "SharesPurchased").length,
+      shares_sold: events.filter((event) => event.eventName === "SharesSold").length,
+      market_volume: (sum("SharesPurchased", "tokensIn") + sum("SharesSold", "tokensOut")).toString(),
+      claimed: sum("WinningsClaimed", "amount").toString(),
+      force_resolved: events.some((event) => event.eventName === "GameForceResolved") ? 1 : 0,
+      started_at: started?.timestamp ?? null,
+      resolved_at: resolved?.timestamp ?? null,
+      started_block: started?.blockNumber ?? null,
+      resolved_block: resolved?.blockNumber ?? null,
+    });
+  }
+
+  private getLastIndexedBlock(): bigint | null {
+    const row = this.getDb().prepare("SELECT value FROM meta WHERE key = 'last_indexed_block'").get() as
+      | { value: string }
+      | undefined;
+    return row ? BigInt(row.value) : null;
+  }
+
+  private setLastIndexedBlock(block: bigint): void {
+    this.getDb()
+      .prepare("INSERT OR REPLACE INTO meta (key, value) VALUES ('last_indexed_block', ?)")
+      .run(block.toString());
+  }
+
+  /**
+   * Open the database on first use, creating the schema if needed
+   */
+  private getDb(): Database.Database {
+    if (!this.db) {
+      fs.mkdirSync(path.dirname(this.dbFile), { recursive: true });
+      this.db = new Database(this.dbFile);
+      this.db.pragma("journal_mode = WAL");
+      this.db.exec(SCHEMA);
+    }
+    return this.db;
+  }
+
+  private getClient(): PublicClient {
+    if (!this.publicClient) {
+      this.publicClient = getReadClient();
+    }
+    return this.publicClient;
+  }
+}
+
+/**
+ * Outcome from a GameResolved event (busts resolve as a loss with result "Bust")
+ */
+function outcomeOf(resolved: IndexedEvent): GameOutcome {
+  if (resolved.args.result === "Bust") return "bust";
+
+  switch (Number(resolved.args.marketResult) as MarketResult) {
+    case MarketResult.Win:
+      return "win";
+    case MarketResult.Lose:
+      return "lose";
+    case MarketResult.Push:
+      return "push";
+    default:
+      return "pending";
+  }
+}
+
+function toIndexedGame(row: GameRow): IndexedGame {
+  return {
+    gameId: row.game_id,
+    player: row.player,
+    outcome: row.outcome,
+    result: row.result,
+    playerValue: row.player_value,
+    dealerValue: row.dealer_value,
+    hits: row.hits,
+    feeIn: row.fee_in,
+    tokensReceived: row.tokens_received,
+    sharesPurchased: row.shares_purchased,
+    sharesSold: row.shares_sold,
+    marketVolume: row.market_volume,
+    claimed: row.claimed,
+    forceResolved: row.force_resolved === 1,
+    startedAt: row.started_at,
+    resolvedAt: row.resolved_at,
+    startedBlock: row.started_block,
+    resolvedBlock: row.resolved_block,
+  };
+}
+
+function toIndexedEvent(row: EventRow): IndexedEvent {
+  return {
+    blockNumber: row.block_number,
+    logIndex: row.log_index,
+    transactionHash: row.transaction_hash,
+    eventName: row.event_name,
+    gameId: row.game_id,
+    account: row.account,
+    args: JSON.parse(row.args),
+    timestamp: row.timestamp,
+  };
+}
+
+// One indexer per process
+const eventIndexer = new EventIndexer();
+export default eventIndexer;
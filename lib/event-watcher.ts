@@ -0,0 +1,167 @@
+/**
+ * Contract Event Watcher
+ *
+ * Watches the Blackjack contract for our player's game events and wakes anyone
+ * waiting on a state change, so a VRF callback is picked up as soon as its logs
+ * land instead of on the next 2-second poll. Callers still re-read the game
+ * state after waking; polling remains as a slow fallback. The log filter runs
+ * on the shared RPC pool (getReadClient), so it fails over with every other read.
+ */
+
+import type { Log, PublicClient } from "viem";
+import { EventEmitter } from "events";
+import { blackjackAbi } from "./blackjack-contract";
+
+// Events that move a player's game forward (all carry an indexed `player`)
+export const WATCHED_EVENTS = [
+  "GameStarted",
+  "PlayerHit",
+  "PlayerStood",
+  "TradingPeriodStarted",
+  "GameResolved",
+  "PlayerBusted",
+  "GameCancelled",
+] as const;
+
+export type WatchedEventName = (typeof WATCHED_EVENTS)[number];
+
+// How often the underlying filter is checked for new logs
+const EVENT_POLL_INTERVAL_MS = parseInt(process.env.EVENT_POLL_INTERVAL_MS || "1000", 10);
+
+export interface GameEvent {
+  eventName: WatchedEventName;
+  args: Record<string, unknown>;
+  gameId: bigint | null;
+  transactionHash: string | null;
+  blockNumber: bigint | null;
+  receivedAt: number;
+}
+
+type DecodedLog = Log & { eventName?: string; args?: Record<string, unknown> };
+
+/**
+ * Emits `game_event` for each of our player's watched events
+ */
+export class ContractEventWatcher extends EventEmitter {
+  private publicClient: PublicClient;
+  private contractAddress: string;
+  private playerAddress: string;
+  private unwatch: (() => void) | null = null;
+  private waiters = new Set<(event: GameEvent | null) => void>();
+  private lastEvent: GameEvent | null = null;
+  private eventCount = 0;
+
+  constructor(publicClient: PublicClient, contractAddress: string, playerAddress: string) {
+    super();
+    this.publicClient = publicClient;
+    this.contractAddress = contractAddress;
+    this.playerAddress = playerAddress;
+  }
+
+  /**
+   * Start watching (no-op if already watching)
+   */
+  start(): void {
+    if (this.unwatch) return;
+
+    console.log(`👂 Watching contract events for ${this.playerAddress}`);
+    this.unwatch = this.publicClient.watchContractEvent({
+      address: this.contractAddress as `0x${string}`,
+      abi: blackjackAbi,
+      pollingInterval: EVENT_POLL_INTERVAL_MS,
+      onLogs: (logs) => this.handleLogs(logs as DecodedLog[]),
+      onError: (error) => console.warn("⚠️  Event watcher error (falling back to polling):", error.message),
+    });
+  }
+
+  /**
+   * Stop watching and release any waiters
+   */
+  stop(): void {
+    if (!this.unwatch) return;
+
+    this.unwatch();
+    this.unwatch = null;
+    this.wake(null);
+    console.log("👂 Stopped watching contract events");
+  }
+
+  /**
+   * Whether the watcher is running
+   */
+  isWatching(): boolean {
+    return this.unwatch !== null;
+  }
+
+  /**
+   * Most recent event for our player
+   */
+  getLastEvent(): GameEvent | null {
+    return this.lastEvent;
+  }
+
+  /**
+   * Number of events seen for our player; take it before reading state and pass it to waitForEvent
+   */
+  getEventCount(): number {
+    return this.eventCount;
+  }
+
+  /**
+   * Resolve on the next event for our player, or null after timeoutMs
+   * With afterCount (from getEventCount), an event that already arrived since then resolves at once,
+   * so one landing while the caller was reading state isn't missed
+   */
+  waitForEvent(timeoutMs: number, afterCount?: number): Promise<GameEvent | null> {
+    if (afterCount !== undefined && this.eventCount > afterCount) {
+      return Promise.resolve(this.lastEvent);
+    }
+
+    return new Promise((resolve) => {
+      const waiter = (event: GameEvent | null) => {
+        clearTimeout(timer);
+        this.waiters.delete(waiter);
+        resolve(event);
+      };
+      const timer = setTimeout(() => waiter(null), timeoutMs);
+      this.waiters.add(waiter);
+    });
+  }
+
+  /**
+   * Keep our player's watched events and wake waiters
+   */
+  private handleLogs(logs: DecodedLog[]): void {
+    for (const log of logs) {
+      if (!log.eventName || !WATCHED_EVENTS.includes(log.eventName as WatchedEventName)) continue;
+
+      const args = log.args || {};
+      const player = typeof args.player === "string" ? args.player : null;
+      if (!player || player.toLowerCase() !== this.playerAddress.toLowerCase()) continue;
+
+      const event: GameEvent = {
+        eventName: log.eventName as WatchedEventName,
+        args,
+        gameId: typeof args.gameId === "bigint" ? args.gameId : null,
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        receivedAt: Date.now(),
+      };
+
+      console.log(`📣 ${event.eventName} for game ${event.gameId ?? "?"} (block ${event.blockNumber})`);
+      this.lastEvent = event;
+      this.eventCount++;
+      this.emit("game_event", event);
+      this.wake(event);
+    }
+  }
+
+  /**
+   * Resolve all pending waitForEvent calls
+   */
+  private wake(event: GameEvent | null): void {
+    for (const waiter of Array.from(this.waiters)) {
+      waiter(event);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Game Journal (Node.js Runtime Only)
+ *
+ * Checkpoints the game loop, the running session and any in-flight transaction
+ * to a JSON file on every transition, so a crash or dev-server reload can pick
+ * up mid-session. Writes go to a temp file and are renamed into place, so a
+ * crash mid-write leaves the previous checkpoint intact. Each player wallet
+ * has its own journal file.
+ * Uses Node.js 'fs', keep it out of client code.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { GameLoopSnapshot } from "./game-loop";
+import type { ContractAction } from "./rpc-client";
+import type { SessionSnapshot } from "./session";
+import type { StrategyName } from "./decision-strategy";
+import type { GuardrailConfig } from "./guardrail";
+import type { ApprovalConfig } from "./approval";
+
+const JOURNAL_FILE = process.env.JOURNAL_FILE || path.join("data", "journal.json");
+
+/**
+ * Journal file for one player wallet, e.g. data/journal-0xabc....json
+ */
+export function journalFileFor(playerAddress: string): string {
+  const { dir, name, ext } = path.parse(JOURNAL_FILE);
+  return path.join(dir, `${name}-${playerAddress.toLowerCase()}${ext}`);
+}
+
+// Transaction that was being sent when the checkpoint was taken
+export interface PendingTransaction {
+  action: ContractAction;
+  userOpHash: string | null; // null if the process stopped before the wallet returned a hash
+  sentAt: number;
+}
+
+// Options the session was started with, reapplied on resume
+export interface JournalStartOptions {
+  strategy: StrategyName;
+  guardrail: GuardrailConfig;
+  approval?: ApprovalConfig;
+  restartAfterCancel?: boolean;
+}
+
+export interface JournalEntry {
+  savedAt: number;
+  loop: GameLoopSnapshot | null;
+  session: SessionSnapshot | null; // Unfinished session, null once it ends
+  startOptions: JournalStartOptions | null;
+  pendingTx: PendingTransaction | null;
+}
+
+/**
+ * File-backed checkpoint of the autonomous player's state
+ */
+export class GameJournal {
+  private file: string;
+  private entry: JournalEntry;
+
+  constructor(file: string = JOURNAL_FILE) {
+    this.file = file;
+    this.entry = this.read() ?? { savedAt: 0, loop: null, session: null, startOptions: null, pendingTx: null };
+  }
+
+  /**
+   * Last saved checkpoint
+   */
+  get(): JournalEntry {
+    return this.entry;
+  }
+
+  /**
+   * Merge changes into the checkpoint and write it out (never throws)
+   */
+  checkpoint(changes: Partial<Omit<JournalEntry, "savedAt">>): void {
+    this.entry = { ...this.entry, ...changes, savedAt: Date.now() };
+
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      const tmpFile = `${this.file}.tmp`;
+      fs.writeFileSync(tmpFile, JSON.stringify(this.entry, null, 2));
+      fs.renameSync(tmpFile, this.file);
+    } catch (error) {
+      // Never let checkpointing interrupt play
+      console.error("⚠️  Failed to write game journal:", error);
+    }
+  }
+
+  /**
+   * Load the checkpoint from disk, null if missing or unreadable
+   */
+  private read(): JournalEntry | null {
+    if (!fs.existsSync(this.file)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(this.file, "utf8")) as JournalEntry;
+    } catch (error) {
+      console.warn("⚠️  Ignoring unreadable game journal:", error);
+      return null;
+    }
+  }
+}
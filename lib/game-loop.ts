@@ -5,9 +5,41 @@
  * Coordinates between direct RPC calls and AI decision-making.
  */
 
-import type { BlackjackRPCClient } from "./rpc-client";
+import type { BlackjackRPCClient, CardDisplay, GameDisplay, TransactionResult } from "./rpc-client";
+import { FRESH_HAND_EV, OptimalStrategy } from "./decision-strategy";
+import { analyzeHand, formatOutcome } from "./optimal-strategy";
+import type { HandAnalysis, PlayerAction } from "./optimal-strategy";
+import { Guardrail } from "./guardrail";
+import { HandState, MarketResult } from "./contract-types";
+import {
+  ContractRevertError,
+  CooldownActiveError,
+  GameActiveError,
+  NeedsClaimError,
+  TradingPeriodActiveError,
+} from "./contract-errors";
+import type { GameResolution } from "./contract-types";
+import type { GuardrailConfig } from "./guardrail";
+import { DEFAULT_APPROVAL_CONFIG } from "./approval";
+import type { ApprovalConfig, ApprovalVerdict, Proposal, ProposalOutcome } from "./approval";
+import type { Decision, DecisionContext, DecisionStrategy, StrategyName } from "./decision-strategy";
 import { EventEmitter } from "events";
 
+// Attempts to find a finished game's GameResolved event before settling from totals
+const RESOLUTION_ATTEMPTS = 5;
+
+// Pause before retrying a hit/stand the contract said was too early (about one Base block)
+const ACTION_RETRY_DELAY_MS = 2000;
+
+// Start a fresh game after cancelling one whose VRF callback was lost
+const RESTART_AFTER_CANCEL = process.env.RESTART_AFTER_CANCEL === "true";
+
+// Error message when the operator (or the timeout policy) rejects starting a game
+export const START_REJECTED = "Start rejected by operator";
+
+// Error message ending the session at its first transaction in dry-run mode (the chain won't move)
+export const DRY_RUN_STOP = "Dry run: first transaction simulated, nothing sent";
+
 // Game states
 export enum GameLoopState {
   IDLE = "IDLE",
@@ -20,6 +52,8 @@ export enum GameLoopState {
   WAITING_HIT_VRF = "WAITING_HIT_VRF",
   WAITING_STAND_VRF = "WAITING_STAND_VRF",
   GAME_COMPLETE = "GAME_COMPLETE",
+  RECOVERING_STUCK_GAME = "RECOVERING_STUCK_GAME",
+  AWAITING_APPROVAL = "AWAITING_APPROVAL",
   ERROR = "ERROR",
 }
 
@@ -29,6 +63,7 @@ export enum GameResult {
   LOSS = "LOSS",
   PUSH = "PUSH",
   BUST = "BUST",
+  CANCELLED = "CANCELLED", // Stuck waiting for VRF and cancelled, no result
   UNKNOWN = "UNKNOWN",
 }
 
@@ -45,6 +80,44 @@ export interface GameStats {
   longestLossStreak: number;
 }
 
+// Per-run counters, reset on every start (GameStats are lifetime)
+export interface SessionStats {
+  decisions: number;
+  deviations: number;
+  overrides: number; // Decisions replaced by the guardrail
+  evSaved: number; // EV recovered by overrides, in bet units
+}
+
+// Audit record for a single hit/stand decision (payload of the `decision` event)
+export interface DecisionRecord {
+  player?: string; // Player id (wallet address), added when the decision is logged
+  gameId: string | null;
+  strategy: StrategyName;
+  action: PlayerAction;
+  optimalAction: PlayerAction;
+  deviated: boolean;
+  evHit: number | null; // null when hitting is not allowed
+  evStand: number;
+  evCost: number; // EV given up versus the optimal action (0 when not deviating)
+  overridden: boolean; // Replaced by the guardrail before execution
+  confidence?: number;
+  rationale?: string;
+  playerCards: readonly CardDisplay[];
+  playerTotal: number;
+  dealerCards: readonly CardDisplay[];
+  dealerTotal: number;
+  decidedAt: number;
+}
+
+// Checkpointed loop state, restored after a restart (bigints as strings for JSON)
+export interface GameLoopSnapshot {
+  state: GameLoopState;
+  currentGameId: string | null;
+  lastGameResult: GameResult | null;
+  stats: GameStats;
+  sessionStats: SessionStats;
+}
+
 // Game loop event
 export interface GameLoopEvent {
   type: string;
@@ -53,16 +126,6 @@ export interface GameLoopEvent {
   timestamp: number;
 }
 
-enum HandState {
-  None = 0,
-  PendingInitialDeal = 1,
-  Active = 2,
-  PendingHit = 3,
-  PendingStand = 4,
-  Busted = 5,
-  Finished = 6,
-}
-
 /**
  * Autonomous Blackjack Game Loop
  */
@@ -73,15 +136,26 @@ export class GameLoop extends EventEmitter {
   private stats: GameStats;
   private lastGameResult: GameResult | null = null;
   private shouldStop: () => boolean;
+  private strategy: DecisionStrategy;
+  private guardrail: Guardrail = new Guardrail();
+  private sessionStats: SessionStats = GameLoop.emptySessionStats();
+  private restartAfterCancel = RESTART_AFTER_CANCEL;
+  private paused = false;
+  private stepsAllowed = 0; // Hold points to pass while paused (set by step())
+  private approval: ApprovalConfig = { ...DEFAULT_APPROVAL_CONFIG };
+  private pendingProposal: Proposal | null = null;
+  private operatorVerdict: ApprovalVerdict | null = null;
 
   private constructor(
     rpcClient: BlackjackRPCClient, 
     shouldStop: () => boolean,
+    strategy: DecisionStrategy,
     initialStats?: Partial<GameStats>
   ) {
     super(); // Call EventEmitter constructor
     this.rpcClient = rpcClient;
     this.shouldStop = shouldStop;
+    this.strategy = strategy;
     this.stats = {
       gamesPlayed: initialStats?.gamesPlayed || 0,
       wins: initialStats?.wins || 0,
@@ -100,7 +174,8 @@ export class GameLoop extends EventEmitter {
    */
   static async create(
     rpcClient: BlackjackRPCClient,
-    shouldStop: () => boolean = () => false
+    shouldStop: () => boolean = () => false,
+    strategy: DecisionStrategy = new OptimalStrategy()
   ): Promise<GameLoop> {
     try {
       console.log("📊 Loading historical stats from contract...");
@@ -115,7 +190,7 @@ export class GameLoop extends EventEmitter {
         winRate: contractStats.winRate,
       });
 
-      return new GameLoop(rpcClient, shouldStop, {
+      return new GameLoop(rpcClient, shouldStop, strategy, {
         gamesPlayed: Number(contractStats.gamesPlayed),
         wins: Number(contractStats.gamesWon),
         losses: Number(contractStats.gamesLost),
@@ -128,7 +203,7 @@ export class GameLoop extends EventEmitter {
       });
     } catch (error) {
       console.warn("⚠️ Failed to load historical stats, starting fresh:", error);
-      return new GameLoop(rpcClient, shouldStop);
+      return new GameLoop(rpcClient, shouldStop, strategy);
     }
   }
 
@@ -150,21 +225,73 @@ export class GameLoop extends EventEmitter {
   }
 
   /**
-   * Start a new game
+   * Start a new game and play it to completion
    */
-  private async startGame(): Promise<void> {
+  private async startGame(): Promise<GameResult> {
+    await this.holdWhilePaused("new game");
+
+    const betAmount = BigInt(process.env.BET_AMOUNT || "700000000000000");
+
+    if (this.approval.enabled) {
+      const { proposal, verdict, decidedBy } = await this.requestApproval({
+        action: "start",
+        gameId: null,
+        amountWei: betAmount.toString(),
+        ev: FRESH_HAND_EV[this.strategy.name] ?? null,
+        evHit: null,
+        evStand: null,
+        optimalAction: null,
+        strategy: this.strategy.name,
+        rejectable: true,
+        playerTotal: null,
+        dealerTotal: null,
+      });
+      const outcome: ProposalOutcome = {
+        proposal,
+        verdict,
+        decidedBy,
+        action: verdict === "approved" ? "start" : null,
+        decidedAt: Date.now(),
+      };
+      this.emit("proposal_resolved", outcome);
+      if (verdict === "rejected") {
+        console.log(`🙅 Game start ${decidedBy === "timeout" ? "rejected by timeout policy" : "rejected by operator"}`);
+        throw new Error(START_REJECTED);
+      }
+    }
+
     this.setState(GameLoopState.STARTING_GAME);
-    
-    const betAmount = process.env.BET_AMOUNT || "700000000000000";
     console.log(`💰 Starting game with bet: ${betAmount} wei`);
     
-    const startSuccess = await this.executeAction("start", betAmount);
+    let startResult: TransactionResult;
+    try {
+      startResult = await this.executeStart(betAmount);
+    } catch (error) {
+      if (error instanceof GameActiveError) {
+        // Started elsewhere (or our earlier start landed after all), play it instead
+        const active = await this.rpcClient.getGameStatus();
+        console.log(`♠️ Game #${active.gameId} is already active, resuming it...`);
+        this.currentGameId = active.gameId;
+        return await this.playHand();
+      }
+      if (error instanceof ContractRevertError) {
+        console.log("❌ Failed to start game - stopping autonomous play");
+        this.setState(GameLoopState.ERROR);
+        this.emit("error", {
+          message: `Failed to start game: ${error.message}`,
+          revertReason: error.reason,
+          errorType: error.name,
+        });
+      }
+      throw error;
+    }
 
-    if (!startSuccess) {
+    if (!startResult.success) {
+      const reason = startResult.revertReason || startResult.error || "unknown error";
       console.log("❌ Failed to start game - stopping autonomous play");
       this.setState(GameLoopState.ERROR);
-      this.emit("error", { message: "Failed to start game. Check wallet balance and contract state." });
-      throw new Error("Failed to start game");
+      this.emit("error", { message: `Failed to start game: ${reason}`, revertReason: startResult.revertReason });
+      throw new Error(`Failed to start game: ${reason}`);
     }
 
     // Wait for initial deal
@@ -175,6 +302,10 @@ export class GameLoop extends EventEmitter {
       this.shouldStop
     );
     this.currentGameId = afterDeal.gameId;
+
+    if (this.isStuck(afterDeal)) {
+      return await this.recoverStuckGame(afterDeal);
+    }
     
     this.emit("initial_deal", {
       playerCards: afterDeal.playerCards,
@@ -184,24 +315,8 @@ export class GameLoop extends EventEmitter {
     });
 
     // Check if game ended immediately (blackjack)
-    if (this.rpcClient.isGameComplete(afterDeal.status)) {
-      this.setState(GameLoopState.GAME_COMPLETE);
-      const result = this.parseGameResult(afterDeal.status);
-      this.updateStats(result);
-      this.emit("game_complete", {
-        result,
-        status: afterDeal.status,
-        playerCards: afterDeal.playerCards,
-        playerTotal: afterDeal.playerTotal,
-        dealerCards: afterDeal.dealerCards,
-        dealerTotal: afterDeal.dealerTotal,
-      });
-
-      // Claim winnings if we won
-      if (result === GameResult.WIN && this.currentGameId) {
-        await this.claimWinnings(this.currentGameId);
-      }
-      return;
+    if (this.rpcClient.isGameComplete(afterDeal.state)) {
+      return await this.completeGame(afterDeal);
     }
 
     // Wait for trading period to end
@@ -209,7 +324,164 @@ export class GameLoop extends EventEmitter {
     await this.rpcClient.waitForTradingPeriod(this.shouldStop);
     
     // Now play the hand
-    await this.playHand();
+    return await this.playHand();
+  }
+
+  /**
+   * Still waiting on a VRF callback that has timed out
+   */
+  private isStuck(display: GameDisplay): boolean {
+    return display.canCancelStuck && this.rpcClient.isWaitingForVRF(display.state);
+  }
+
+  /**
+   * Cancel a game whose VRF callback never arrived, then optionally start a fresh one
+   */
+  private async recoverStuckGame(display: GameDisplay): Promise<GameResult> {
+    this.setState(GameLoopState.RECOVERING_STUCK_GAME);
+    console.log(`🧯 Game #${display.gameId} stuck in ${HandState[display.state]}, cancelling...`);
+
+    let result: TransactionResult;
+    try {
+      result = await this.rpcClient.cancelStuckGame();
+    } catch (error) {
+      if (error instanceof ContractRevertError) {
+        this.setState(GameLoopState.ERROR);
+        this.emit("error", {
+          message: `Failed to cancel stuck game: ${error.message}`,
+          revertReason: error.reason,
+          errorType: error.name,
+        });
+      }
+      throw error;
+    }
+    if (result.dryRun) {
+      this.emit("dry_run", { ...result.simulation, gameId: display.gameId });
+      throw new Error(DRY_RUN_STOP);
+    }
+    if (!result.success) {
+      const reason = result.revertReason || result.error || "unknown error";
+      this.setState(GameLoopState.ERROR);
+      this.emit("error", { message: `Failed to cancel stuck game: ${reason}`, revertReason: result.revertReason });
+      throw new Error(`Failed to cancel stuck game: ${reason}`);
+    }
+
+    // Contract reports the abandoned state as the reason, e.g. "waiting for hit card"
+    const cancelled = result.events.find((event) => event.eventName === "GameCancelled");
+    this.lastGameResult = GameResult.CANCELLED;
+    this.emit("game_cancelled", {
+      gameId: display.gameId,
+      abandonedState: HandState[display.state],
+      reason: cancelled ? String(cancelled.args.reason) : null,
+      transactionHash: result.transactionHash,
+      playerCards: display.playerCards,
+      playerTotal: display.playerTotal,
+      dealerCards: display.dealerCards,
+      dealerTotal: display.dealerTotal,
+    });
+    console.log(`✅ Game #${display.gameId} cancelled (tx ${result.transactionHash})`);
+
+    if (this.restartAfterCancel) {
+      console.log("\n🎲 Starting fresh game after cancellation...");
+      return await this.startGame();
+    }
+
+    this.setState(GameLoopState.GAME_COMPLETE);
+    return GameResult.CANCELLED;
+  }
+
+  /**
+   * Record a finished game: stats, event, and claim if we won
+   */
+  private async completeGame(display: GameDisplay): Promise<GameResult> {
+    this.setState(GameLoopState.GAME_COMPLETE);
+
+    const resolution = await this.findResolution(display.gameId);
+    let result: GameResult;
+    if (resolution) {
+      result = this.toGameResult(resolution, display.state);
+      console.log(
+        `📜 GameResolved: "${resolution.result}" (${resolution.playerValue} vs ${resolution.dealerValue}, ` +
+          `${MarketResult[resolution.marketResult]}) → ${result}`
+      );
+    } else {
+      result = this.resultFromTotals(display);
+      console.warn(`⚠️  No GameResolved event for game ${display.gameId}, settled from final totals: ${result}`);
+    }
+
+    this.lastGameResult = result;
+    this.updateStats(result);
+    this.emit("game_complete", {
+      gameId: display.gameId,
+      result,
+      status: resolution?.result || display.status,
+      resolvedTx: resolution?.transactionHash || null,
+      playerCards: display.playerCards,
+      playerTotal: display.playerTotal,
+      dealerCards: display.dealerCards,
+      dealerTotal: display.dealerTotal,
+    });
+
+    // Claim winnings if we won
+    if (result === GameResult.WIN && this.currentGameId) {
+      await this.claimWinnings(this.currentGameId);
+    }
+
+    return result;
+  }
+
+  /**
+   * Find the GameResolved event for a finished game
+   * It is emitted by the VRF callback, which the RPC may not have indexed yet, so retry briefly
+   */
+  private async findResolution(gameId: bigint): Promise<GameResolution | null> {
+    for (let attempt = 1; attempt <= RESOLUTION_ATTEMPTS; attempt++) {
+      try {
+        const resolution = await this.rpcClient.getGameResolution(gameId);
+        if (resolution) {
+          return resolution;
+        }
+        console.log(`⏳ GameResolved for game ${gameId} not found yet (attempt ${attempt}/${RESOLUTION_ATTEMPTS})`);
+      } catch (error) {
+        console.warn(`⚠️  Failed to look up GameResolved (attempt ${attempt}/${RESOLUTION_ATTEMPTS}):`, error);
+      }
+      if (attempt < RESOLUTION_ATTEMPTS) {
+        await this.sleep(2000);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Map the contract's GameResult to ours (the contract reports busts as Lose)
+   */
+  private toGameResult(resolution: GameResolution, state: HandState): GameResult {
+    switch (resolution.marketResult) {
+      case MarketResult.Win:
+        return GameResult.WIN;
+      case MarketResult.Push:
+        return GameResult.PUSH;
+      case MarketResult.Lose:
+        return state === HandState.Busted || resolution.playerValue > 21 ? GameResult.BUST : GameResult.LOSS;
+      default:
+        return GameResult.UNKNOWN;
+    }
+  }
+
+  /**
+   * Settle from the final totals the same way _handleStand does
+   * Only used when the GameResolved event cannot be found
+   */
+  private resultFromTotals(display: GameDisplay): GameResult {
+    const { playerTotal, dealerTotal } = display;
+    if (display.state === HandState.Busted || playerTotal > 21) return GameResult.BUST;
+    if (playerTotal === 21 && display.playerCards.length === 2) {
+      // Natural: push only against a dealer natural
+      return dealerTotal === 21 && display.dealerCards.length === 2 ? GameResult.PUSH : GameResult.WIN;
+    }
+    if (dealerTotal > 21 || playerTotal > dealerTotal) return GameResult.WIN;
+    if (playerTotal === dealerTotal) return GameResult.PUSH;
+    return GameResult.LOSS;
   }
 
   /**
@@ -239,25 +511,6 @@ export class GameLoop extends EventEmitter {
     this.emit("stats_update", this.stats);
   }
 
-  /**
-   * Parse game result from status string
-   */
-  private parseGameResult(status: string): GameResult {
-    const statusLower = status.toLowerCase();
-
-    if (statusLower.includes("you win") || statusLower.includes("blackjack")) {
-      return GameResult.WIN;
-    } else if (statusLower.includes("dealer wins")) {
-      return GameResult.LOSS;
-    } else if (statusLower.includes("busted")) {
-      return GameResult.BUST;
-    } else if (statusLower.includes("push")) {
-      return GameResult.PUSH;
-    }
-
-    return GameResult.UNKNOWN;
-  }
-
   /**
    * Claim winnings for a game (extracted to avoid duplication)
    */
@@ -269,13 +522,20 @@ export class GameLoop extends EventEmitter {
       if (claimable > 0n) {
         this.setState(GameLoopState.CLAIMING_WINNINGS);
         console.log(`💰 Attempting to claim ${claimable} wei from game ${gameId}`);
-        await this.rpcClient.claimWinnings(gameId);
+        const transactionHash = await this.rpcClient.claimWinnings(gameId);
+        if (transactionHash === null) {
+          this.emit("dry_run", { ...this.rpcClient.getSimulations()[0], gameId });
+          throw new Error(DRY_RUN_STOP);
+        }
         this.emit("winnings_claimed", { gameId, amount: claimable });
         console.log(`✅ Successfully claimed ${claimable} wei`);
       } else {
         console.log(`ℹ️  No claimable winnings for game ${gameId}`);
       }
     } catch (error) {
+      if (error instanceof Error && error.message === DRY_RUN_STOP) {
+        throw error;
+      }
       console.error("⚠️  Failed to claim winnings, will continue to next game:", error);
       // Don't throw - continue to next game even if claiming fails
     }
@@ -283,8 +543,9 @@ export class GameLoop extends EventEmitter {
 
   /**
    * Main game loop - runs one complete game cycle
+   * Returns the result of the game that was played (UNKNOWN if none was)
    */
-  async runGameCycle(): Promise<void> {
+  async runGameCycle(): Promise<GameResult> {
     this.updateState(GameLoopState.CHECKING_CLAIMABLE);
 
     // Check if we should stop at the very beginning
@@ -295,11 +556,14 @@ export class GameLoop extends EventEmitter {
 
     console.log("🔍 Checking for existing active game...");
     
-    // Get current game state
-    const currentStatus = await this.rpcClient.getGameStatus();
+    // Get current game state (one batched read, includes the claimable amount)
+    const snapshot = await this.rpcClient.getSnapshot();
+    const currentStatus = snapshot.game;
     
     console.log("\n📊 === Current Game State ===");
+    console.log(`Block: ${snapshot.blockNumber}`);
     console.log(`Game ID: ${currentStatus.gameId}`);
+    console.log(`State: ${HandState[currentStatus.state]}`);
     console.log(`Status: "${currentStatus.status}"`);
     console.log(`Can Start New: ${currentStatus.canStartNew}`);
     console.log(`Can Hit: ${currentStatus.canHit}`);
@@ -312,11 +576,11 @@ export class GameLoop extends EventEmitter {
     console.log("===============================\n");
 
     // Check if we need to claim winnings from completed game
-    if (this.rpcClient.isGameComplete(currentStatus.status) && currentStatus.gameId > 0n) {
+    if (this.rpcClient.isGameComplete(currentStatus.state) && currentStatus.gameId > 0n) {
       console.log(`✅ Game #${currentStatus.gameId} is complete, checking for claimable winnings...`);
       
       try {
-        const claimable = await this.rpcClient.getClaimableAmount(currentStatus.gameId);
+        const claimable = snapshot.claimable;
         console.log(`💰 Claimable amount: ${claimable} wei`);
         
         if (claimable > 0n) {
@@ -325,19 +589,22 @@ export class GameLoop extends EventEmitter {
           console.log("ℹ️ No winnings to claim (already claimed or lost)");
         }
       } catch (error) {
+        if (error instanceof Error && error.message === DRY_RUN_STOP) {
+          throw error;
+        }
         console.error("❌ Error checking/claiming winnings:", error);
       }
       
       // After claiming (or if nothing to claim), start new game
       console.log("\n🎲 Starting new game after previous completion...");
-      await this.startGame();
+      return await this.startGame();
     }
     // Check if there's an active game that needs to be played
     else if (!currentStatus.canStartNew && currentStatus.gameId > 0n) {
       console.log(`♠️ Resuming active game #${currentStatus.gameId}...`);
       
       // Check if we're waiting for VRF
-      if (this.rpcClient.isWaitingForVRF(currentStatus.status)) {
+      if (this.rpcClient.isWaitingForVRF(currentStatus.state)) {
         console.log("⏳ Game is waiting for VRF callback, will poll for completion...");
         // playHand will handle VRF polling
       }
@@ -349,12 +616,13 @@ export class GameLoop extends EventEmitter {
       }
       
       // Play the active game
-      await this.playHand();
+      this.currentGameId = currentStatus.gameId;
+      return await this.playHand();
     }
     // No active game - start fresh
     else if (currentStatus.canStartNew) {
       console.log("🎲 No active game, starting new one...");
-      await this.startGame();
+      return await this.startGame();
     }
     else {
       console.log("⚠️ Unknown game state - cannot proceed");
@@ -363,14 +631,14 @@ export class GameLoop extends EventEmitter {
       console.log(`Game ID: ${currentStatus.gameId}`);
       this.updateState(GameLoopState.ERROR);
       this.emit("error", { message: "Unknown game state", status: currentStatus.status });
+      return GameResult.UNKNOWN;
     }
   }
 
   /**
    * Play the active hand (hit/stand decisions)
-   * Note: AI decision logic must be injected from server-side code
    */
-  private async playHand(): Promise<void> {
+  private async playHand(): Promise<GameResult> {
     this.setState(GameLoopState.PLAYING);
 
     while (true) {
@@ -380,27 +648,32 @@ export class GameLoop extends EventEmitter {
         throw new Error("Stopped by user");
       }
 
-      const gameStatus = await this.rpcClient.getGameStatus();
+      const eventCount = this.rpcClient.getGameEventCount();
+      let gameStatus = await this.rpcClient.getGameStatus();
 
       console.log(`\n📊 GAME STATUS DEBUG:`);
+      console.log(`   State: ${HandState[gameStatus.state]}`);
       console.log(`   Status: "${gameStatus.status}"`);
       console.log(`   Player Total: ${gameStatus.playerTotal}`);
       console.log(`   Dealer Total: ${gameStatus.dealerTotal}`);
       console.log(`   Can Hit: ${gameStatus.canHit}`);
       console.log(`   Can Stand: ${gameStatus.canStand}`);
-      console.log(`   Is Complete: ${this.rpcClient.isGameComplete(gameStatus.status)}`);
-      console.log(`   Is Waiting VRF: ${this.rpcClient.isWaitingForVRF(gameStatus.status)}`);
+      console.log(`   Is Complete: ${this.rpcClient.isGameComplete(gameStatus.state)}`);
+      console.log(`   Is Waiting VRF: ${this.rpcClient.isWaitingForVRF(gameStatus.state)}`);
 
       // Check if game is complete
-      if (this.rpcClient.isGameComplete(gameStatus.status)) {
+      if (this.rpcClient.isGameComplete(gameStatus.state)) {
         console.log("✅ Game is complete, exiting play loop");
         break;
       }
 
       // Check if waiting for VRF
-      if (this.rpcClient.isWaitingForVRF(gameStatus.status)) {
+      if (this.isStuck(gameStatus)) {
+        return await this.recoverStuckGame(gameStatus);
+      }
+      if (this.rpcClient.isWaitingForVRF(gameStatus.state)) {
         console.log("⏳ Still waiting for VRF...");
-        await this.sleep(2000);
+        await this.rpcClient.waitForGameEvent(undefined, eventCount);
         continue;
       }
 
@@ -411,25 +684,62 @@ export class GameLoop extends EventEmitter {
         continue;
       }
 
+      // Paused: hold before deciding, the previous action has already settled on-chain
+      if (await this.holdWhilePaused("decision", gameStatus.gameId)) {
+        gameStatus = await this.rpcClient.getGameStatus();
+        if (!gameStatus.canHit && !gameStatus.canStand) {
+          continue;
+        }
+      }
+
       // Check again before making decision (AI call can take time)
       if (this.shouldStop()) {
         console.log("🛑 [PLAYHAND] Play hand stopped before decision (pre-AI call)");
         throw new Error("Stopped by user");
       }
 
-      // Make decision via API call (server-side AI)
-      const decision = await this.getDecision(
-        gameStatus.playerTotal,
-        gameStatus.dealerTotal,
-        gameStatus.playerCards,
-        gameStatus.dealerCards
-      );
-
-      this.emit("decision", {
-        action: decision,
+      // Decide using the configured strategy
+      const context: DecisionContext = {
+        playerCards: gameStatus.playerCards,
         playerTotal: gameStatus.playerTotal,
+        dealerCards: gameStatus.dealerCards,
         dealerTotal: gameStatus.dealerTotal,
-      });
+        canHit: gameStatus.canHit,
+        canStand: gameStatus.canStand,
+      };
+      const analysis = analyzeHand(context.playerCards, context.dealerCards);
+      let decision = await this.getDecision(context, analysis);
+
+      // Guardrail runs before anything reaches the chain
+      const override = this.guardrail.check(this.strategy.name, decision, analysis);
+
+      const record = this.buildDecisionRecord(gameStatus.gameId, context, decision, analysis, override !== null);
+      this.sessionStats.decisions++;
+      if (record.deviated) this.sessionStats.deviations++;
+      this.emit("decision", record);
+
+      if (override) {
+        console.log(
+          `🛡️  Guardrail override: ${override.originalAction.toUpperCase()} → ${override.action.toUpperCase()} ` +
+            `(would cost ${override.evCost.toFixed(4)} EV, threshold ${override.threshold})`
+        );
+        this.sessionStats.overrides++;
+        this.sessionStats.evSaved += override.evCost;
+        this.emit("override", {
+          ...override,
+          gameId: record.gameId,
+          strategy: this.strategy.name,
+          playerTotal: context.playerTotal,
+          dealerTotal: context.dealerTotal,
+          session: this.getSessionStats(),
+        });
+        decision = { action: override.action, rationale: `Guardrail override of ${override.originalAction}` };
+      }
+
+      // Operator approval comes last, after the guardrail
+      if (this.approval.enabled) {
+        decision = await this.approveDecision(decision, context, analysis, gameStatus.gameId);
+      }
 
       // Check once more before executing action
       if (this.shouldStop()) {
@@ -437,121 +747,361 @@ export class GameLoop extends EventEmitter {
         throw new Error("Stopped by user");
       }
 
-      // Execute decision via API
-      if (decision === "hit") {
-        await this.executeAction("hit");
+      // Execute decision on-chain
+      const actionResult = await this.executeWhenAllowed(decision.action);
+      if (!actionResult.success) {
+        const reason = actionResult.revertReason || actionResult.error || "unknown error";
+        throw new Error(`${decision.action.toUpperCase()} failed: ${reason}`);
+      }
+
+      if (decision.action === "hit") {
         this.setState(GameLoopState.WAITING_HIT_VRF);
-        await this.rpcClient.pollForStateChange(HandState.PendingHit, 300000, this.shouldStop);
+        const afterHit = await this.rpcClient.pollForStateChange(HandState.PendingHit, 300000, this.shouldStop);
+        if (this.isStuck(afterHit)) {
+          return await this.recoverStuckGame(afterHit);
+        }
       } else {
-        await this.executeAction("stand");
         this.setState(GameLoopState.WAITING_STAND_VRF);
-        await this.rpcClient.pollForStateChange(HandState.PendingStand, 300000, this.shouldStop);
+        const afterStand = await this.rpcClient.pollForStateChange(HandState.PendingStand, 300000, this.shouldStop);
+        if (this.isStuck(afterStand)) {
+          return await this.recoverStuckGame(afterStand);
+        }
         break; // Stand ends the hand
       }
 
       this.setState(GameLoopState.PLAYING);
     }
+
+    return await this.completeGame(await this.rpcClient.getGameStatus());
   }
 
   /**
-   * Get AI decision via API call
+   * Get decision from the configured strategy
    */
-  private async getDecision(
-    playerTotal: number,
-    dealerTotal: number,
-    playerCards: any[],
-    dealerCards: any[]
-  ): Promise<"hit" | "stand"> {
-    // Basic strategy fallback (hit on <17, stand on >=17)
-    return playerTotal < 17 ? "hit" : "stand";
+  private async getDecision(context: DecisionContext, analysis: HandAnalysis): Promise<Decision> {
+    // Contract rejects hit() at 21, no need to ask
+    if (!context.canHit) {
+      return { action: "stand" };
+    }
+
+    console.log(`🧮 Player ${analysis.playerTotal} vs dealer ${analysis.dealerTotal}, ${analysis.remainingCards} cards left:`);
+    console.log(`   Stand: ${formatOutcome(analysis.stand)}`);
+    if (analysis.hit) {
+      console.log(`   Hit:   ${formatOutcome(analysis.hit)}`);
+    }
+
+    const decision = await this.strategy.decide(context);
+    console.log(`🧠 Strategy "${this.strategy.name}" decided: ${decision.action.toUpperCase()} (optimal: ${analysis.best.toUpperCase()})`);
+
+    return decision;
   }
 
   /**
-   * Execute action via /api/agent endpoint
+   * Propose a hit/stand to the operator and return the decision to execute
    */
-  private async executeAction(action: "start" | "hit" | "stand", betAmount?: string): Promise<boolean> {
-    try {
-      let message = "";
-
-      if (action === "start") {
-        message = `Start a new blackjack game with a bet of ${betAmount} wei.`;
-      } else if (action === "hit") {
-        message = "Hit - draw another card.";
-      } else if (action === "stand") {
-        message = "Stand - end your turn and let dealer play.";
-      }
+  private async approveDecision(
+    decision: Decision,
+    context: DecisionContext,
+    analysis: HandAnalysis,
+    gameId: bigint
+  ): Promise<Decision> {
+    const evHit = analysis.hit ? analysis.hit.ev : null;
+    const { proposal, verdict, decidedBy } = await this.requestApproval({
+      action: decision.action,
+      gameId: gameId > 0n ? gameId.toString() : null,
+      amountWei: null,
+      ev: decision.action === "hit" ? evHit : analysis.stand.ev,
+      evHit,
+      evStand: analysis.stand.ev,
+      optimalAction: analysis.best,
+      strategy: this.strategy.name,
+      rationale: decision.rationale,
+      rejectable: decision.action === "stand" ? context.canHit : context.canStand,
+      playerTotal: context.playerTotal,
+      dealerTotal: context.dealerTotal,
+    });
 
-      console.log(`\n🤖 Calling AI agent: ${message}`);
+    let action: PlayerAction = decision.action;
+    let outcomeVerdict = verdict;
+    if (decidedBy === "timeout" && this.approval.defaultPolicy === "optimal") {
+      action = analysis.best;
+      outcomeVerdict = action === decision.action ? "approved" : "rejected";
+    } else if (verdict === "rejected" && !proposal.rejectable) {
+      // Only the "reject" timeout policy gets here, the operator can't reject it
+      console.log(`🔒 ${decision.action.toUpperCase()} can't be rejected (the other action isn't allowed), playing it`);
+      outcomeVerdict = "approved";
+    } else if (verdict === "rejected") {
+      action = decision.action === "hit" ? "stand" : "hit";
+    }
 
-      // Check if we should stop before making the request
-      if (this.shouldStop()) {
-        console.log("🛑 [ACTION] Action cancelled before execution (pre-fetch)");
-        throw new Error("Stopped by user");
-      }
+    const outcome: ProposalOutcome = { proposal, verdict: outcomeVerdict, decidedBy, action, decidedAt: Date.now() };
+    this.emit("proposal_resolved", outcome);
+
+    if (action === decision.action) {
+      console.log(`👍 ${action.toUpperCase()} approved (${decidedBy})`);
+      return decision;
+    }
+    console.log(`🙅 ${decision.action.toUpperCase()} rejected (${decidedBy}), playing ${action.toUpperCase()}`);
+    return { action, rationale: `${decision.action} rejected by ${decidedBy === "timeout" ? "timeout policy" : "operator"}` };
+  }
+
+  /**
+   * Publish a proposal and wait for the operator's verdict or the timeout
+   * On timeout the verdict follows the default policy ("optimal" is resolved by the caller)
+   */
+  private async requestApproval(
+    draft: Omit<Proposal, "id" | "proposedAt" | "expiresAt">
+  ): Promise<{ proposal: Proposal; verdict: ApprovalVerdict; decidedBy: ProposalOutcome["decidedBy"] }> {
+    const proposedAt = Date.now();
+    const proposal: Proposal = {
+      ...draft,
+      id: crypto.randomUUID(),
+      proposedAt,
+      expiresAt: proposedAt + this.approval.timeoutSeconds * 1000,
+    };
 
-      // Create AbortController with timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 60000); // 60s timeout
+    const previousState = this.state;
+    this.pendingProposal = proposal;
+    this.operatorVerdict = null;
+    this.setState(GameLoopState.AWAITING_APPROVAL);
+    console.log(
+      `🙋 Awaiting approval for ${proposal.action.toUpperCase()} (${proposal.id.slice(0, 8)}), ` +
+        `${this.approval.timeoutSeconds}s before "${this.approval.defaultPolicy}" applies`
+    );
+    this.emit("proposal", proposal);
 
-      // Poll shouldStop during the request
-      const stopCheckInterval = setInterval(() => {
+    try {
+      while (this.operatorVerdict === null && Date.now() < proposal.expiresAt) {
         if (this.shouldStop()) {
-          console.log("🛑 [ACTION] Aborting action request due to stop (during fetch)");
-          controller.abort();
+          console.log("🛑 [APPROVAL] Stopped while awaiting approval");
+          throw new Error("Stopped by user");
         }
-      }, 500); // Check every 500ms
+        await this.sleep(500);
+      }
+    } finally {
+      this.pendingProposal = null;
+    }
+    this.setState(previousState);
 
-      try {
-        // Use relative URL to work with any port
-        const apiUrl = typeof window !== 'undefined'
-          ? '/api/agent'
-          : `http://localhost:${process.env.PORT || 3000}/api/agent`;
-
-        const response = await fetch(apiUrl, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ userMessage: message }),
-          signal: controller.signal,
-        });
+    if (this.operatorVerdict !== null) {
+      return { proposal, verdict: this.operatorVerdict, decidedBy: "operator" };
+    }
+    return { proposal, verdict: this.approval.defaultPolicy === "reject" ? "rejected" : "approved", decidedBy: "timeout" };
+  }
 
-        clearTimeout(timeoutId);
-        clearInterval(stopCheckInterval);
+  /**
+   * Record the operator's verdict on the pending proposal
+   * Returns false if the proposal is no longer pending, or if it is a rejection of an unrejectable proposal
+   */
+  decideProposal(proposalId: string, verdict: ApprovalVerdict): boolean {
+    if (!this.pendingProposal || this.pendingProposal.id !== proposalId || this.operatorVerdict !== null) {
+      return false;
+    }
+    if (verdict === "rejected" && !this.pendingProposal.rejectable) {
+      return false; // Stays pending, the API explains why
+    }
+    this.operatorVerdict = verdict;
+    return true;
+  }
 
-        if (!response.ok) {
-          throw new Error(`Agent API failed: ${response.status}`);
-        }
+  /**
+   * Proposal waiting for the operator, if any
+   */
+  getPendingProposal(): Proposal | null {
+    return this.pendingProposal;
+  }
+
+  /**
+   * Replace the approval configuration
+   */
+  setApproval(config: Partial<ApprovalConfig>): void {
+    this.approval = {
+      enabled: config.enabled ?? DEFAULT_APPROVAL_CONFIG.enabled,
+      timeoutSeconds: config.timeoutSeconds ?? DEFAULT_APPROVAL_CONFIG.timeoutSeconds,
+      defaultPolicy: config.defaultPolicy ?? DEFAULT_APPROVAL_CONFIG.defaultPolicy,
+    };
+  }
 
-        const data = await response.json();
-        const agentResponse = data.response || "";
+  /**
+   * Get current approval configuration
+   */
+  getApprovalConfig(): ApprovalConfig {
+    return { ...this.approval };
+  }
 
-        // Check if the response indicates an error
-        const errorKeywords = ["error", "failed", "reverted", "insufficient", "check your balance", "try again later", "needs more eth", "needs eth"];
-        const hasError = errorKeywords.some(keyword =>
-          agentResponse.toLowerCase().includes(keyword)
-        );
+  /**
+   * Build the audit record for a decision, scoring it against the optimal play
+   */
+  private buildDecisionRecord(
+    gameId: bigint,
+    context: DecisionContext,
+    decision: Decision,
+    analysis: HandAnalysis,
+    overridden: boolean
+  ): DecisionRecord {
+    const evHit = analysis.hit ? analysis.hit.ev : null;
+    const evStand = analysis.stand.ev;
+    const chosenEv = decision.action === "hit" && evHit !== null ? evHit : evStand;
+    const bestEv = analysis.best === "hit" && evHit !== null ? evHit : evStand;
+    const deviated = decision.action !== analysis.best;
+
+    if (deviated) {
+      console.log(`⚠️  Deviation from optimal play: ${decision.action.toUpperCase()} costs ${(bestEv - chosenEv).toFixed(4)} EV`);
+    }
 
-        if (hasError) {
-          console.log(`❌ ${action.toUpperCase()} action failed`);
-          console.log(`🤖 Agent response: ${agentResponse.substring(0, 200)}`);
-          return false;
-        }
+    return {
+      gameId: gameId > 0n ? gameId.toString() : null,
+      strategy: this.strategy.name,
+      action: decision.action,
+      optimalAction: analysis.best,
+      deviated,
+      evHit,
+      evStand,
+      evCost: bestEv - chosenEv,
+      overridden,
+      confidence: decision.confidence,
+      rationale: decision.rationale,
+      playerCards: context.playerCards,
+      playerTotal: context.playerTotal,
+      dealerCards: context.dealerCards,
+      dealerTotal: context.dealerTotal,
+      decidedAt: Date.now(),
+    };
+  }
 
-        console.log(`✅ ${action.toUpperCase()} action executed`);
-        console.log(`🤖 Agent response: ${agentResponse.substring(0, 200)}`);
-        return true;
-      } finally {
-        clearTimeout(timeoutId);
-        clearInterval(stopCheckInterval);
-      }
+  /**
+   * Send a player transaction directly through the RPC client
+   */
+  private async executeAction(action: "start" | "hit" | "stand", betAmount?: bigint): Promise<TransactionResult> {
+    // A sent transaction can't be recalled, so this is the last chance to stop
+    if (this.shouldStop()) {
+      console.log("🛑 [ACTION] Action cancelled before execution");
+      throw new Error("Stopped by user");
+    }
+
+    let result: TransactionResult;
+    if (action === "start") {
+      result = await this.rpcClient.startGame(betAmount!);
+    } else if (action === "hit") {
+      result = await this.rpcClient.hit();
+    } else {
+      result = await this.rpcClient.stand();
+    }
+
+    if (result.dryRun) {
+      // Nothing was sent, so waiting for the chain to move would never end
+      this.emit("dry_run", { ...result.simulation, gameId: this.currentGameId });
+      throw new Error(DRY_RUN_STOP);
+    }
+
+    if (result.success) {
+      console.log(`✅ ${action.toUpperCase()} executed (tx ${result.transactionHash})`);
+    } else {
+      console.log(`❌ ${action.toUpperCase()} failed: ${result.revertReason || result.error}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Start a game; if a finished game still has winnings to claim, claim them and start once more
+   */
+  private async executeStart(betAmount: bigint): Promise<TransactionResult> {
+    try {
+      return await this.executeAction("start", betAmount);
     } catch (error) {
-      // Check if this was an abort due to stop
-      if (error instanceof Error && error.name === 'AbortError') {
-        console.log("🛑 Action request aborted");
-        throw new Error("Stopped by user");
+      if (!(error instanceof NeedsClaimError)) {
+        throw error;
       }
-      console.error(`❌ Failed to execute ${action}:`, error);
+      const previous = await this.rpcClient.getGameStatus();
+      console.log(`💰 Game #${previous.gameId} has unclaimed winnings, claiming before starting...`);
+      await this.claimWinnings(previous.gameId);
+      return await this.executeAction("start", betAmount);
+    }
+  }
+
+  /**
+   * Hit or stand, waiting out a trading period or cooldown the simulation reports
+   */
+  private async executeWhenAllowed(action: "hit" | "stand"): Promise<TransactionResult> {
+    while (true) {
+      try {
+        return await this.executeAction(action);
+      } catch (error) {
+        if (!(error instanceof TradingPeriodActiveError || error instanceof CooldownActiveError)) {
+          throw error;
+        }
+        console.log(`⏳ ${error.reason}, retrying ${action.toUpperCase()} once it passes...`);
+        await this.rpcClient.waitForTradingPeriod(this.shouldStop);
+        await this.sleep(ACTION_RETRY_DELAY_MS); // Display and block timestamps can lag each other
+      }
+    }
+  }
+
+  /**
+   * Hold while paused, unless a step lets this hold point through
+   * Returns true if it held (callers should re-read the game)
+   */
+  private async holdWhilePaused(point: "decision" | "new game", gameId: bigint | null = this.currentGameId): Promise<boolean> {
+    if (!this.paused) {
+      return false;
+    }
+    if (this.stepsAllowed > 0) {
+      this.stepsAllowed--;
+      console.log(`⏭️  Stepping through ${point}`);
       return false;
     }
+
+    console.log(`⏸️  Paused before ${point}`);
+    this.emit("holding", { point, gameId });
+
+    while (this.paused && this.stepsAllowed === 0) {
+      if (this.shouldStop()) {
+        console.log("🛑 [PAUSE] Stopped while paused");
+        throw new Error("Stopped by user");
+      }
+      await this.sleep(500);
+    }
+
+    if (this.paused) {
+      this.stepsAllowed--;
+      console.log(`⏭️  Stepping through ${point}`);
+    } else {
+      console.log(`▶️  Resumed before ${point}`);
+    }
+    return true;
+  }
+
+  /**
+   * Hold at the next decision or game start (an in-flight action finishes first)
+   */
+  pause(): void {
+    this.paused = true;
+    this.stepsAllowed = 0;
+  }
+
+  /**
+   * Continue playing after a pause
+   */
+  resume(): void {
+    this.paused = false;
+    this.stepsAllowed = 0;
+  }
+
+  /**
+   * While paused, let exactly one hold point through (one decision or one game start)
+   */
+  step(): void {
+    if (this.paused) {
+      this.stepsAllowed++;
+    }
+  }
+
+  /**
+   * Whether play is paused
+   */
+  isPaused(): boolean {
+    return this.paused;
   }
 
   /**
@@ -561,6 +1111,89 @@ export class GameLoop extends EventEmitter {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
+  /**
+   * Replace the decision strategy (takes effect on the next decision)
+   */
+  setStrategy(strategy: DecisionStrategy): void {
+    this.strategy = strategy;
+  }
+
+  /**
+   * Replace the guardrail configuration
+   */
+  setGuardrail(config: Partial<GuardrailConfig>): void {
+    this.guardrail = new Guardrail(config);
+  }
+
+  /**
+   * Get current guardrail configuration
+   */
+  getGuardrailConfig(): GuardrailConfig {
+    return this.guardrail.getConfig();
+  }
+
+  /**
+   * Whether a fresh game is started after cancelling a stuck one
+   */
+  setRestartAfterCancel(restart: boolean): void {
+    this.restartAfterCancel = restart;
+  }
+
+  /**
+   * Reset per-run counters (called when a new run starts)
+   */
+  resetSessionStats(): void {
+    this.sessionStats = GameLoop.emptySessionStats();
+  }
+
+  /**
+   * Get per-run counters
+   */
+  getSessionStats(): SessionStats {
+    return { ...this.sessionStats };
+  }
+
+  /**
+   * Zeroed session counters
+   */
+  static emptySessionStats(): SessionStats {
+    return { decisions: 0, deviations: 0, overrides: 0, evSaved: 0 };
+  }
+
+  /**
+   * Checkpoint of the loop's in-memory state
+   */
+  getSnapshot(): GameLoopSnapshot {
+    return {
+      state: this.state,
+      currentGameId: this.currentGameId !== null ? this.currentGameId.toString() : null,
+      lastGameResult: this.lastGameResult,
+      stats: this.getStats(),
+      sessionStats: this.getSessionStats(),
+    };
+  }
+
+  /**
+   * Restore a checkpoint taken before a restart
+   * Game counts come from the contract on create(), only what it doesn't track is restored
+   */
+  restore(snapshot: GameLoopSnapshot): void {
+    this.currentGameId = snapshot.currentGameId !== null ? BigInt(snapshot.currentGameId) : null;
+    this.lastGameResult = snapshot.lastGameResult;
+    this.sessionStats = { ...snapshot.sessionStats };
+    this.stats.currentStreak = snapshot.stats.currentStreak;
+    this.stats.longestWinStreak = snapshot.stats.longestWinStreak;
+    this.stats.longestLossStreak = snapshot.stats.longestLossStreak;
+    console.log(`♻️  Restored loop checkpoint (game ${snapshot.currentGameId ?? "none"}, last state ${snapshot.state})`);
+  }
+
+  /**
+   * Get current strategy name
+   */
+  getStrategyName(): StrategyName {
+    return this.strategy.name;
+  }
+
   /**
    * Get current state
    */
@@ -0,0 +1,95 @@
+/**
+ * Optimal-Play Guardrail
+ *
+ * Sits between the decision strategy and the on-chain action. If the chosen
+ * action gives up more EV than the threshold versus the best action, it is
+ * replaced by the best action (e.g. an LLM deciding to hit on hard 20).
+ */
+
+import type { Decision, StrategyName } from "./decision-strategy";
+import type { HandAnalysis, PlayerAction } from "./optimal-strategy";
+
+export interface GuardrailConfig {
+  enabled: boolean;
+  threshold: number; // Max EV (in bet units) a decision may give up before it is overridden
+  strategies: StrategyName[]; // Strategies the guardrail applies to
+}
+
+// Used when GUARDRAIL_EV_THRESHOLD is unset or not a non-negative number
+const DEFAULT_EV_THRESHOLD = 0.05;
+
+export const DEFAULT_GUARDRAIL_CONFIG: GuardrailConfig = {
+  enabled: process.env.GUARDRAIL_ENABLED !== "false",
+  threshold: thresholdFromEnv(),
+  strategies: ["ai", "hybrid"],
+};
+
+export interface GuardrailOverride {
+  originalAction: PlayerAction;
+  action: PlayerAction;
+  evCost: number;
+  threshold: number;
+}
+
+/**
+ * Check decisions against the optimal play and override costly deviations
+ */
+export class Guardrail {
+  private config: GuardrailConfig;
+
+  constructor(config: Partial<GuardrailConfig> = {}) {
+    this.config = {
+      enabled: config.enabled ?? DEFAULT_GUARDRAIL_CONFIG.enabled,
+      threshold: config.threshold ?? DEFAULT_GUARDRAIL_CONFIG.threshold,
+      strategies: config.strategies ?? DEFAULT_GUARDRAIL_CONFIG.strategies,
+    };
+  }
+
+  /**
+   * Returns an override when the decision costs more EV than allowed, null otherwise
+   */
+  check(strategy: StrategyName, decision: Decision, analysis: HandAnalysis): GuardrailOverride | null {
+    if (!this.config.enabled || !this.config.strategies.includes(strategy)) {
+      return null;
+    }
+
+    const evOf = (action: PlayerAction) =>
+      action === "hit" && analysis.hit ? analysis.hit.ev : analysis.stand.ev;
+
+    const evCost = evOf(analysis.best) - evOf(decision.action);
+    if (decision.action === analysis.best || evCost <= this.config.threshold) {
+      return null;
+    }
+
+    return {
+      originalAction: decision.action,
+      action: analysis.best,
+      evCost,
+      threshold: this.config.threshold,
+    };
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): GuardrailConfig {
+    return { ...this.config };
+  }
+}
+
+/**
+ * GUARDRAIL_EV_THRESHOLD, falling back to the default (with a warning) if it isn't a valid number
+ */
+function thresholdFromEnv(): number {
+  const raw = process.env.GUARDRAIL_EV_THRESHOLD;
+  if (!raw) {
+    return DEFAULT_EV_THRESHOLD;
+  }
+
+  const threshold = Number(raw);
+  if (!Number.isFinite(threshold) || threshold < 0) {
+    console.warn(`⚠️  Invalid GUARDRAIL_EV_THRESHOLD "${raw}", using ${DEFAULT_EV_THRESHOLD}`);
+    return DEFAULT_EV_THRESHOLD;
+  }
+  return threshold;
+}
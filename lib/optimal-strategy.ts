@@ -0,0 +1,407 @@
+/**
+ * Full-Information Optimal Strategy Engine
+ *
+ * Blackjack.sol deals every card face up: `getGameDisplay` returns both dealer
+ * cards, including the hole card, so the dealer's total is known before we act.
+ * Each game uses a single 52-card deck dealt without replacement, which means
+ * the remaining deck is also known exactly (52 minus every card on the table).
+ *
+ * This module enumerates every possible draw order to compute exact
+ * win/push/loss probabilities for hitting and standing, then picks the action
+ * with the best expected value.
+ */
+
+import { CARD_RANKS, CARD_SUITS } from "./contract-types";
+import type { DecisionContext } from "./decision-strategy";
+import type { CardDisplay } from "./rpc-client";
+
+// Dealer draws until reaching this value (stands on soft 17)
+const DEALER_STAND_VALUE = 17;
+
+// Analyses are pure functions of the hands and deck, so repeated situations are cached
+const MAX_CACHED_ANALYSES = 50000;
+const analysisCache = new Map<string, HandAnalysis>();
+
+export type PlayerAction = "hit" | "stand";
+
+export interface OutcomeProbabilities {
+  win: number;
+  push: number;
+  loss: number;
+  ev: number; // win - loss, in units of one bet
+}
+
+export interface HandAnalysis {
+  hit: OutcomeProbabilities | null; // null when hitting is not allowed (21 or more)
+  stand: OutcomeProbabilities;
+  best: PlayerAction;
+  playerTotal: number;
+  dealerTotal: number;
+  remainingCards: number;
+}
+
+/**
+ * Hand total tracked as a hard sum (aces counted as 1) plus an ace flag.
+ * Equivalent to the contract's `_calculateHandValue`, which counts aces as 11
+ * and subtracts 10 per ace while the total exceeds 21.
+ */
+interface HandTotal {
+  hardSum: number;
+  hasAce: boolean;
+}
+
+// Remaining deck counts indexed by card value (index 1 = ace, index 10 = ten/face)
+type DeckCounts = number[];
+
+// Hit/stand choice for a non-optimal strategy, e.g. TableStrategy.lookup
+export type HandPolicy = (context: DecisionContext) => PlayerAction;
+
+// Dealer final totals: 17-21 plus bust
+interface DealerDistribution {
+  totals: Map<number, number>;
+  bust: number;
+}
+
+/**
+ * Value of a rank (ace = 1 here, soft value is handled by HandTotal)
+ */
+function rankToValue(rankIndex: number): number {
+  if (rankIndex === 0) return 1;
+  if (rankIndex >= 9) return 10;
+  return rankIndex + 1;
+}
+
+/**
+ * Convert a displayed card back to the contract's card id (0-51)
+ */
+export function cardIdFromDisplay(card: CardDisplay): number {
+  const rankIndex = CARD_RANKS.indexOf(card.rank);
+  const suitIndex = CARD_SUITS.findIndex((suit) => suit.toLowerCase() === card.suit.toLowerCase());
+
+  if (rankIndex === -1 || suitIndex === -1) {
+    throw new Error(`Unrecognized card: ${card.rank} of ${card.suit}`);
+  }
+
+  return suitIndex * 13 + rankIndex;
+}
+
+/**
+ * Best value of a hand, matching `_calculateHandValue`
+ */
+function handValue(hand: HandTotal): number {
+  return hand.hasAce && hand.hardSum + 10 <= 21 ? hand.hardSum + 10 : hand.hardSum;
+}
+
+function addCard(hand: HandTotal, value: number): HandTotal {
+  return { hardSum: hand.hardSum + value, hasAce: hand.hasAce || value === 1 };
+}
+
+function toHandTotal(cards: readonly CardDisplay[]): HandTotal {
+  return cards.reduce<HandTotal>(
+    (hand, card) => addCard(hand, rankToValue(CARD_RANKS.indexOf(card.rank))),
+    { hardSum: 0, hasAce: false }
+  );
+}
+
+/**
+ * Build the remaining deck from the cards already dealt in this game
+ */
+function remainingDeck(usedCards: readonly CardDisplay[]): DeckCounts {
+  const counts = [0, 4, 4, 4, 4, 4, 4, 4, 4, 4, 16];
+
+  for (const card of usedCards) {
+    const value = rankToValue(CARD_RANKS.indexOf(card.rank));
+    counts[value] = Math.max(0, counts[value] - 1);
+  }
+
+  return counts;
+}
+
+function withoutCard(deck: DeckCounts, value: number): DeckCounts {
+  const next = deck.slice();
+  next[value]--;
+  return next;
+}
+
+function deckSize(deck: DeckCounts): number {
+  return deck.reduce((sum, count) => sum + count, 0);
+}
+
+/**
+ * Exact probability calculator for a single decision point.
+ * Memoizes dealer outcomes per deck composition since player hits share them.
+ */
+class HandCalculator {
+  private dealerCache = new Map<string, DealerDistribution>();
+  private playerCache = new Map<string, OutcomeProbabilities>();
+  private dealer: HandTotal;
+
+  constructor(dealer: HandTotal) {
+    this.dealer = dealer;
+  }
+
+  /**
+   * Distribution of the dealer's final total when drawing from `deck`
+   */
+  dealerOutcomes(dealer: HandTotal, deck: DeckCounts): DealerDistribution {
+    const key = `${dealer.hardSum}:${dealer.hasAce}:${deck.join(",")}`;
+    const cached = this.dealerCache.get(key);
+    if (cached) return cached;
+
+    const value = handValue(dealer);
+    let result: DealerDistribution;
+
+    if (value > 21) {
+      result = { totals: new Map(), bust: 1 };
+    } else if (value >= DEALER_STAND_VALUE) {
+      result = { totals: new Map([[value, 1]]), bust: 0 };
+    } else {
+      result = { totals: new Map(), bust: 0 };
+      const total = deckSize(deck);
+
+      for (let cardValue = 1; cardValue <= 10; cardValue++) {
+        if (deck[cardValue] === 0) continue;
+        const p = deck[cardValue] / total;
+        const next = this.dealerOutcomes(addCard(dealer, cardValue), withoutCard(deck, cardValue));
+
+        result.bust += p * next.bust;
+        next.totals.forEach((q, finalTotal) => {
+          result.totals.set(finalTotal, (result.totals.get(finalTotal) || 0) + p * q);
+        });
+      }
+    }
+
+    this.dealerCache.set(key, result);
+    return result;
+  }
+
+  /**
+   * Outcome of standing on `playerValue` with the dealer drawing from `deck`
+   */
+  stand(playerValue: number, deck: DeckCounts): OutcomeProbabilities {
+    const dealer = this.dealerOutcomes(this.dealer, deck);
+    let win = dealer.bust;
+    let push = 0;
+    let loss = 0;
+
+    dealer.totals.forEach((p, dealerValue) => {
+      if (playerValue > dealerValue) win += p;
+      else if (playerValue === dealerValue) push += p;
+      else loss += p;
+    });
+
+    return { win, push, loss, ev: win - loss };
+  }
+
+  /**
+   * Outcome of hitting once and then continuing optimally
+   */
+  hit(player: HandTotal, deck: DeckCounts): OutcomeProbabilities {
+    const total = deckSize(deck);
+    const result = { win: 0, push: 0, loss: 0, ev: 0 };
+
+    for (let cardValue = 1; cardValue <= 10; cardValue++) {
+      if (deck[cardValue] === 0) continue;
+      const p = deck[cardValue] / total;
+      const next = this.best(addCard(player, cardValue), withoutCard(deck, cardValue));
+
+      result.win += p * next.win;
+      result.push += p * next.push;
+      result.loss += p * next.loss;
+    }
+
+    result.ev = result.win - result.loss;
+    return result;
+  }
+
+  /**
+   * Outcome of playing `player` optimally from here
+   */
+  best(player: HandTotal, deck: DeckCounts): OutcomeProbabilities {
+    const value = handValue(player);
+    if (value > 21) return { win: 0, push: 0, loss: 1, ev: -1 };
+
+    const key = `${player.hardSum}:${player.hasAce}:${deck.join(",")}`;
+    const cached = this.playerCache.get(key);
+    if (cached) return cached;
+
+    const standOutcome = this.stand(value, deck);
+    let result = standOutcome;
+
+    // Contract rejects hit() at 21
+    if (value < 21) {
+      const hitOutcome = this.hit(player, deck);
+      if (hitOutcome.ev > standOutcome.ev) result = hitOutcome;
+    }
+
+    this.playerCache.set(key, result);
+    return result;
+  }
+
+  /**
+   * EV of playing `playerCards` by `policy` from here (no hit at 21)
+   * `cache` holds results for this dealer hand and policy, keyed by the player's cards
+   */
+  follow(
+    playerCards: CardDisplay[],
+    dealerCards: CardDisplay[],
+    deck: DeckCounts,
+    policy: HandPolicy,
+    cache: Map<string, number>
+  ): number {
+    const player = toHandTotal(playerCards);
+    const value = handValue(player);
+    if (value > 21) return -1;
+
+    // The deck is the dealer's cards and these taken out, so the sorted cards are the whole state
+    const key = playerCards
+      .map((card) => card.value)
+      .sort((a, b) => a - b)
+      .join(",");
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+
+    const context = {
+      playerCards,
+      playerTotal: value,
+      dealerCards,
+      dealerTotal: handValue(this.dealer),
+      canHit: value < 21,
+      canStand: true,
+    };
+    let ev = 0;
+    if (value === 21 || policy(context) === "stand") {
+      ev = this.stand(value, deck).ev;
+    } else {
+      const total = deckSize(deck);
+      for (let cardValue = 1; cardValue <= 10; cardValue++) {
+        if (deck[cardValue] === 0) continue;
+        const next = [...playerCards, cardForValue(cardValue)];
+        ev += (deck[cardValue] / total) * this.follow(next, dealerCards, withoutCard(deck, cardValue), policy, cache);
+      }
+    }
+
+    cache.set(key, ev);
+    return ev;
+  }
+}
+
+/**
+ * Compute exact hit/stand probabilities for the current hand.
+ * Every card on the table is treated as removed from the deck.
+ */
+export function analyzeHand(playerCards: readonly CardDisplay[], dealerCards: readonly CardDisplay[]): HandAnalysis {
+  const player = toHandTotal(playerCards);
+  const dealer = toHandTotal(dealerCards);
+  const deck = remainingDeck([...playerCards, ...dealerCards]);
+
+  const key = `${player.hardSum}:${player.hasAce}|${dealer.hardSum}:${dealer.hasAce}|${deck.join(",")}`;
+  const cached = analysisCache.get(key);
+  if (cached) return cached;
+
+  const playerTotal = handValue(player);
+  const calculator = new HandCalculator(dealer);
+  const stand = calculator.stand(playerTotal, deck);
+  const hit = playerTotal < 21 ? calculator.hit(player, deck) : null;
+
+  const analysis: HandAnalysis = {
+    hit,
+    stand,
+    best: hit && hit.ev > stand.ev ? "hit" : "stand",
+    playerTotal,
+    dealerTotal: handValue(dealer),
+    remainingCards: deckSize(deck),
+  };
+
+  if (analysisCache.size >= MAX_CACHED_ANALYSES) {
+    analysisCache.clear();
+  }
+  analysisCache.set(key, analysis);
+
+  return analysis;
+}
+
+/**
+ * Exact EV of a fresh hand in bet units: every initial deal (player, dealer, player,
+ * dealer from a full deck) played optimally, or by `policy` when given. A player
+ * natural is refunded on-chain and scores `naturalPayout`, like in the backtester.
+ */
+export function freshHandEv(policy: HandPolicy | null = null, naturalPayout: number = 0): number {
+  const fullDeck = remainingDeck([]);
+  const draw = (deck: DeckCounts, value: number) => deck[value] / deckSize(deck);
+  let ev = 0;
+
+  // The chance of a deal doesn't depend on the order its cards come out in, so take the
+  // dealer's two first and share one calculator (and its caches) between both orders of them
+  for (let low = 1; low <= 10; low++) {
+    const afterLow = withoutCard(fullDeck, low);
+    for (let high = low; high <= 10; high++) {
+      if (afterLow[high] === 0) continue;
+      const deckAfterDealer = withoutCard(afterLow, high);
+      const calculator = new HandCalculator(addCard(addCard({ hardSum: 0, hasAce: false }, low), high));
+      const dealerNatural = low === 1 && high === 10;
+
+      // Policies look at the upcard (the first dealer card), so each order is played separately
+      const orders = low === high ? [[low, high]] : [[low, high], [high, low]];
+      for (const order of orders) {
+        const dealerCards = order.map(cardForValue);
+        const pDealer = draw(fullDeck, order[0]) * draw(withoutCard(fullDeck, order[0]), order[1]);
+        ev += pDealer * playerHandsEv(calculator, dealerCards, deckAfterDealer, dealerNatural, policy, naturalPayout);
+      }
+    }
+  }
+
+  return ev;
+}
+
+// Probability-weighted EV over every two-card player hand dealt from `deck`
+function playerHandsEv(
+  calculator: HandCalculator,
+  dealerCards: CardDisplay[],
+  deck: DeckCounts,
+  dealerNatural: boolean,
+  policy: HandPolicy | null,
+  naturalPayout: number
+): number {
+  const draw = (from: DeckCounts, value: number) => from[value] / deckSize(from);
+  const cache = new Map<string, number>();
+  let ev = 0;
+
+  for (let p1 = 1; p1 <= 10; p1++) {
+    if (deck[p1] === 0) continue;
+    const afterP1 = withoutCard(deck, p1);
+    for (let p2 = 1; p2 <= 10; p2++) {
+      if (afterP1[p2] === 0) continue;
+      const p = draw(deck, p1) * draw(afterP1, p2);
+
+      // A natural against a dealer natural is a push
+      if (Math.min(p1, p2) === 1 && Math.max(p1, p2) === 10) {
+        ev += dealerNatural ? 0 : p * naturalPayout;
+        continue;
+      }
+
+      const playerCards = [cardForValue(p1), cardForValue(p2)];
+      const remaining = withoutCard(afterP1, p2);
+      ev +=
+        p *
+        (policy
+          ? calculator.follow(playerCards, dealerCards, remaining, policy, cache)
+          : calculator.best(toHandTotal(playerCards), remaining).ev);
+    }
+  }
+
+  return ev;
+}
+
+// A card of the given value (ten-valued cards as "10"), for policies that look at the cards
+function cardForValue(value: number): CardDisplay {
+  return { rank: value === 1 ? "A" : String(value), suit: "Spades", value: value === 1 ? 11 : value };
+}
+
+/**
+ * Format probabilities for logging
+ */
+export function formatOutcome(outcome: OutcomeProbabilities): string {
+  const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+  return `win ${pct(outcome.win)} / push ${pct(outcome.push)} / loss ${pct(outcome.loss)} (EV ${outcome.ev.toFixed(3)})`;
+}
@@ -0,0 +1,83 @@
+/**
+ * Player Manager (Node.js Runtime Only)
+ *
+ * The contract allows one game per address, so throughput is capped at one hand
+ * per wallet. The manager runs one AutonomousPlayerInstance per configured
+ * wallet, each with its own game loop, session, journal and event stream, so
+ * several hands play in parallel. Players are keyed by lowercased address.
+ *
+ * Wallets come from AI_WALLETS (comma-separated), falling back to AI_WALLET.
+ * The first one is the default player for requests that don't name one.
+ */
+
+import { AutonomousPlayerInstance } from "./autonomous-player";
+import type { AutonomousPlayerStatus } from "./autonomous-player";
+
+/**
+ * Configured player wallet addresses, in order, without duplicates
+ */
+export function getPlayerAddresses(): string[] {
+  const configured = process.env.AI_WALLETS || process.env.AI_WALLET || "";
+  const addresses: string[] = [];
+
+  for (const address of configured.split(",").map((entry) => entry.trim())) {
+    if (address && !addresses.some((known) => known.toLowerCase() === address.toLowerCase())) {
+      addresses.push(address);
+    }
+  }
+
+  return addresses;
+}
+
+/**
+ * Keeps one autonomous player per wallet
+ */
+class PlayerManager {
+  private players = new Map<string, AutonomousPlayerInstance>();
+
+  constructor(addresses: string[]) {
+    for (const address of addresses) {
+      const player = new AutonomousPlayerInstance(address);
+      this.players.set(player.id, player);
+    }
+    console.log(`👥 Player manager ready with ${this.players.size} wallet(s)`);
+  }
+
+  /**
+   * Ids of all players, default first
+   */
+  getIds(): string[] {
+    return Array.from(this.players.keys());
+  }
+
+  /**
+   * Id of the player used when a request doesn't name one
+   */
+  getDefaultId(): string | null {
+    return this.getIds()[0] ?? null;
+  }
+
+  /**
+   * Look up a player by id (wallet address, any case)
+   * Without an id the default player is returned; null if unknown
+   */
+  get(playerId?: string | null): AutonomousPlayerInstance | null {
+    const id = playerId ? playerId.toLowerCase() : this.getDefaultId();
+    return (id && this.players.get(id)) || null;
+  }
+
+  /**
+   * Status of every player
+   */
+  async getStatuses(): Promise<AutonomousPlayerStatus[]> {
+    return Promise.all(Array.from(this.players.values()).map((player) => player.getStatus()));
+  }
+}
+
+// Singleton instance
+const playerManager = new PlayerManager(getPlayerAddresses());
+
+export default playerManager;
+
+// Export for type checking
+export type { PlayerManager };
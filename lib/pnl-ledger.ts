@@ -0,0 +1,320 @@
+/**
+ * P&L Ledger (Node.js Runtime Only)
+ *
+ * Records the money side of every game as JSON lines: the ETH start fee and
+ * the wASS it bought (GameStarted), claimed winnings (WinningsClaimed),
+ * natural refunds (InstantWinRefund) and the gas each transaction cost
+ * (units, L1 data fee, and whether the paymaster or the wallet paid).
+ * Per-game realized P&L is computed on read, in wASS (returned minus the
+ * stake) and in ETH (returned wASS valued at the game's entry price, minus
+ * the ETH paid and gas the wallet paid). The cost report breaks gas down by
+ * action. Uses Node.js 'fs', keep it out of client code.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { formatEther } from "viem";
+import type { ContractAction, TransactionResult } from "./rpc-client";
+
+const LEDGER_FILE = process.env.LEDGER_FILE || path.join("data", "ledger.jsonl");
+
+export type LedgerEntryKind = "start" | "claim" | "refund" | "gas";
+
+// One money movement (bigints as strings for JSON)
+export interface LedgerEntry {
+  player: string;
+  gameId: string | null;
+  kind: LedgerEntryKind;
+  action: ContractAction | null; // Transaction that produced the entry (null for refunds)
+  ethInWei: string; // Start fee paid in ETH
+  protocolFeeWei: string; // Part of the start fee kept by the protocol
+  wassStaked: string; // wASS bought with the rest of the start fee
+  wassReturned: string; // Net winnings claimed or tokens refunded
+  wassFee: string; // Fee taken from a claim
+  gasCostWei: string; // Gas paid by the wallet (0 when sponsored)
+  gasSponsored: boolean;
+  sponsoredGasWei?: string; // Gas paid by the paymaster (missing on older entries)
+  gasUsed?: string;
+  l1FeeWei?: string; // L1 data fee of the bundle, part of the gas cost rather than on top of it
+  transactionHash: string | null;
+  recordedAt: number;
+}
+
+export interface LedgerQuery {
+  player?: string;
+  gameId?: string;
+}
+
+// All entries for one game, amounts in ETH / wASS
+export interface GameLedger {
+  player: string;
+  gameId: string | null;
+  ethIn: number;
+  protocolFee: number;
+  wassStaked: number;
+  wassReturned: number;
+  wassFees: number;
+  gasCost: number;
+  sponsoredGasCost: number;
+  pnlWass: number; // wASS returned minus wASS staked
+  pnlEth: number; // wASS returned at the entry price, minus ETH paid and gas
+  complete: boolean; // False if the start wasn't recorded, so pnlEth can't value the wASS
+  firstRecordedAt: number;
+  lastRecordedAt: number;
+}
+
+// Gas for a group of transactions, amounts in ETH
+export interface TransactionCosts {
+  transactions: number;
+  sponsored: number; // Transactions the paymaster paid for
+  gasUsed: number;
+  paidGas: number; // By the wallet
+  sponsoredGas: number; // By the paymaster
+  l1Fees: number; // Share of the above that went to L1 data
+}
+
+// Gas across all transactions, by action
+export interface CostReport extends TransactionCosts {
+  games: number;
+  averagePerGame: number; // Paid plus sponsored gas per game
+  byAction: Record<string, TransactionCosts>;
+}
+
+export interface LedgerSummary {
+  games: number;
+  ethIn: number;
+  protocolFees: number;
+  gasCost: number;
+  sponsoredGasCost: number;
+  wassStaked: number;
+  wassReturned: number;
+  wassFees: number;
+  pnlWass: number;
+  pnlEth: number;
+}
+
+/**
+ * Append an entry to the ledger
+ */
+export function appendLedgerEntry(entry: LedgerEntry): void {
+  try {
+    fs.mkdirSync(path.dirname(LEDGER_FILE), { recursive: true });
+    fs.appendFileSync(LEDGER_FILE, JSON.stringify(entry) + "\n");
+  } catch (error) {
+    // Never let bookkeeping interrupt play
+    console.error("⚠️  Failed to write P&L ledger:", error);
+  }
+}
+
+/**
+ * Build the ledger entry for a settled transaction
+ * Returns null if nothing was mined (so no money moved)
+ */
+export function entryFromTransaction(
+  player: string,
+  gameId: bigint | null,
+  result: TransactionResult
+): LedgerEntry | null {
+  const started = result.events.find((event) => event.eventName === "GameStarted");
+  const claimed = result.events.find((event) => event.eventName === "WinningsClaimed");
+  if (!result.gas && !started && !claimed) {
+    return null;
+  }
+
+  const eventGameId = (started || claimed)?.args.gameId as bigint | undefined;
+  const gas = result.gas;
+  const paidGas = gas && !gas.sponsored ? gas.costWei : 0n;
+
+  return {
+    ...blankEntry(player, eventGameId ?? gameId, started ? "start" : claimed ? "claim" : "gas"),
+    action: result.action,
+    ethInWei: String(started?.args.feeIn ?? 0n),
+    protocolFeeWei: String(started?.args.protocolFee ?? 0n),
+    wassStaked: String(started?.args.tokensReceived ?? 0n),
+    wassReturned: String(claimed?.args.amount ?? 0n),
+    wassFee: String(claimed?.args.feeAmount ?? 0n),
+    gasCostWei: paidGas.toString(),
+    gasSponsored: gas?.sponsored ?? false,
+    sponsoredGasWei: String(gas?.sponsored ? gas.costWei : 0n),
+    gasUsed: String(gas?.gasUsed ?? 0n),
+    l1FeeWei: String(gas?.l1FeeWei ?? 0n),
+    transactionHash: result.transactionHash,
+  };
+}
+
+/**
+ * Build the ledger entry for a natural's instant refund
+ */
+export function refundEntry(
+  player: string,
+  gameId: bigint,
+  tokensRefunded: bigint,
+  transactionHash: string | null
+): LedgerEntry {
+  return {
+    ...blankEntry(player, gameId, "refund"),
+    wassReturned: tokensRefunded.toString(),
+    transactionHash,
+  };
+}
+
+/**
+ * Read entries from the ledger, oldest first
+ */
+export function readLedgerEntries(query: LedgerQuery = {}): LedgerEntry[] {
+  if (!fs.existsSync(LEDGER_FILE)) {
+    return [];
+  }
+
+  const entries: LedgerEntry[] = [];
+  const lines = fs.readFileSync(LEDGER_FILE, "utf8").split("\n");
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as LedgerEntry;
+      if (query.player && entry.player !== query.player) continue;
+      if (query.gameId && entry.gameId !== query.gameId) continue;
+      entries.push(entry);
+    } catch {
+      console.warn("⚠️  Skipping malformed ledger line");
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Per-game P&L, newest game last
+ */
+export function readGameLedgers(query: LedgerQuery = {}): GameLedger[] {
+  const byGame = new Map<string, LedgerEntry[]>();
+  for (const entry of readLedgerEntries(query)) {
+    const key = `${entry.player}:${entry.gameId}`;
+    byGame.set(key, [...(byGame.get(key) || []), entry]);
+  }
+
+  return Array.from(byGame.values()).map(summarizeGame);
+}
+
+/**
+ * Totals across games
+ */
+export function summarizeLedger(games: GameLedger[]): LedgerSummary {
+  const sum = (pick: (game: GameLedger) => number) => games.reduce((total, game) => total + pick(game), 0);
+
+  return {
+    games: games.length,
+    ethIn: sum((game) => game.ethIn),
+    protocolFees: sum((game) => game.protocolFee),
+    gasCost: sum((game) => game.gasCost),
+    sponsoredGasCost: sum((game) => game.sponsoredGasCost),
+    wassStaked: sum((game) => game.wassStaked),
+    wassReturned: sum((game) => game.wassReturned),
+    wassFees: sum((game) => game.wassFees),
+    pnlWass: sum((game) => game.pnlWass),
+    pnlEth: sum((game) => game.pnlEth),
+  };
+}
+
+/**
+ * Gas report over ledger entries, overall and per action
+ */
+export function summarizeCosts(entries: LedgerEntry[]): CostReport {
+  const byAction: Record<string, LedgerEntry[]> = {};
+  for (const entry of entries) {
+    if (entry.action) {
+      (byAction[entry.action] ||= []).push(entry);
+    }
+  }
+
+  const overall = summarizeTransactions(entries);
+  const games = new Set(entries.filter((entry) => entry.gameId !== null).map((entry) => `${entry.player}:${entry.gameId}`));
+
+  return {
+    ...overall,
+    games: games.size,
+    averagePerGame: games.size > 0 ? (overall.paidGas + overall.sponsoredGas) / games.size : 0,
+    byAction: Object.fromEntries(
+      Object.entries(byAction).map(([action, actionEntries]) => [action, summarizeTransactions(actionEntries)])
+    ),
+  };
+}
+
+/**
+ * Gas totals for transaction entries (refunds have no transaction of ours and are skipped)
+ */
+function summarizeTransactions(entries: LedgerEntry[]): TransactionCosts {
+  const transactions = entries.filter((entry) => entry.action !== null);
+  const total = (pick: (entry: LedgerEntry) => string | undefined) =>
+    transactions.reduce((sum, entry) => sum + BigInt(pick(entry) ?? "0"), 0n);
+
+  return {
+    transactions: transactions.length,
+    sponsored: transactions.filter((entry) => entry.gasSponsored).length,
+    gasUsed: Number(total((entry) => entry.gasUsed)),
+    paidGas: Number(formatEther(total((entry) => entry.gasCostWei))),
+    sponsoredGas: Number(formatEther(total((entry) => entry.sponsoredGasWei))),
+    l1Fees: Number(formatEther(total((entry) => entry.l1FeeWei))),
+  };
+}
+
+/**
+ * Combine one game's entries (amounts stay in wei until the end)
+ */
+function summarizeGame(entries: LedgerEntry[]): GameLedger {
+  const total = (pick: (entry: LedgerEntry) => string) =>
+    entries.reduce((sum, entry) => sum + BigInt(pick(entry)), 0n);
+
+  const ethIn = total((entry) => entry.ethInWei);
+  const protocolFee = total((entry) => entry.protocolFeeWei);
+  const wassStaked = total((entry) => entry.wassStaked);
+  const wassReturned = total((entry) => entry.wassReturned);
+  const gasCost = total((entry) => entry.gasCostWei);
+  const sponsoredGasCost = total((entry) => entry.sponsoredGasWei ?? "0");
+
+  // Value returned wASS at the price the stake was bought at (ETH swapped / wASS received)
+  const complete = entries.some((entry) => entry.kind === "start") && wassStaked > 0n;
+  const returnedValueWei = complete ? (wassReturned * (ethIn - protocolFee)) / wassStaked : 0n;
+
+  // wASS has 18 decimals like ETH, so formatEther works for both
+  const toNumber = (wei: bigint) => Number(formatEther(wei));
+
+  return {
+    player: entries[0].player,
+    gameId: entries[0].gameId,
+    ethIn: toNumber(ethIn),
+    protocolFee: toNumber(protocolFee),
+    wassStaked: toNumber(wassStaked),
+    wassReturned: toNumber(wassReturned),
+    wassFees: toNumber(total((entry) => entry.wassFee)),
+    gasCost: toNumber(gasCost),
+    sponsoredGasCost: toNumber(sponsoredGasCost),
+    pnlWass: toNumber(wassReturned - wassStaked),
+    pnlEth: toNumber(returnedValueWei - ethIn - gasCost),
+    complete,
+    firstRecordedAt: entries[0].recordedAt,
+    lastRecordedAt: entries[entries.length - 1].recordedAt,
+  };
+}
+
+/**
+ * Entry with every amount zeroed
+ */
+function blankEntry(player: string, gameId: bigint | null, kind: LedgerEntryKind): LedgerEntry {
+  return {
+    player,
+    gameId: gameId !== null ? gameId.toString() : null,
+    kind,
+    action: null,
+    ethInWei: "0",
+    protocolFeeWei: "0",
+    wassStaked: "0",
+    wassReturned: "0",
+    wassFee: "0",
+    gasCostWei: "0",
+    gasSponsored: false,
+    transactionHash: null,
+    recordedAt: Date.now(),
+  };
+}
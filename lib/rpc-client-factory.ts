@@ -9,14 +9,16 @@ import { CdpSmartWalletProvider } from "@coinbase/agentkit";
 import { BlackjackRPCClient } from "./rpc-client";
 
 /**
- * Create RPC client instance
- * Reuses the wallet provider from prepare-agentkit to avoid creating multiple wallets
+ * Create RPC client instance for a player wallet (defaults to AI_WALLET)
+ * Reuses the wallet provider setup from prepare-agentkit, locked to that wallet
  *
  * ⚠️ WARNING: This uses Node.js 'fs' module via prepare-agentkit.
  * Do NOT import this in Edge Runtime routes (e.g., SSE streams).
  */
-export async function createRPCClient(): Promise<BlackjackRPCClient> {
-  if (!process.env.AI_WALLET) {
+export async function createRPCClient(
+  playerAddress: string | undefined = process.env.AI_WALLET
+): Promise<BlackjackRPCClient> {
+  if (!playerAddress) {
     throw new Error("AI_WALLET not set in environment");
   }
 
@@ -30,14 +32,13 @@ export async function createRPCClient(): Promise<BlackjackRPCClient> {
 
   // Import prepare-agentkit to get the wallet provider
   const { walletProvider } = await import("../app/api/agent/prepare-agentkit").then(
-    (mod) => mod.prepareAgentkitAndWalletProvider()
+    (mod) => mod.prepareAgentkitAndWalletProvider(playerAddress)
   );
 
   const contractAddress = process.env.BLACKJACK_CONTRACT_ADDRESS;
-  const playerAddress = process.env.AI_WALLET;
 
-  if (!contractAddress || !playerAddress) {
-    throw new Error("Missing required environment variables: BLACKJACK_CONTRACT_ADDRESS and AI_WALLET");
+  if (!contractAddress) {
+    throw new Error("Missing required environment variable: BLACKJACK_CONTRACT_ADDRESS");
   }
 
   return new BlackjackRPCClient(
@@ -6,228 +6,474 @@
  */
 
 import { CdpSmartWalletProvider } from "@coinbase/agentkit";
-import { encodeFunctionData } from "viem";
-import BlackjackAbi from "../Blackjackabi.json";
-
-// Types from the blackjack action provider
-interface CardDisplay {
-  rank: string;
-  suit: string;
-  value: number;
+import { parseAbi, parseEventLogs, zeroAddress } from "viem";
+import type { Log } from "viem";
+import { blackjackAbi, encodeBlackjackCall } from "./blackjack-contract";
+import type { BlackjackWriteArgs } from "./blackjack-contract";
+import { BlackjackReader } from "./chain-reader";
+import type { GameDisplay } from "./chain-reader";
+import { decodeRevertReason, toContractError } from "./contract-errors";
+import { HandState } from "./contract-types";
+import { ContractEventWatcher } from "./event-watcher";
+import type { GameEvent } from "./event-watcher";
+
+// Re-read interval while waiting on the chain: fast without the event watcher, slow fallback with it
+const POLL_INTERVAL_MS = 2000;
+const FALLBACK_POLL_INTERVAL_MS = parseInt(process.env.FALLBACK_POLL_INTERVAL_MS || "15000", 10);
+
+// Simulate each transaction and report it instead of sending it (the chain doesn't move, so only the first is meaningful)
+export const DRY_RUN = process.env.DRY_RUN === "true";
+
+// Simulations kept for the status API
+const MAX_SIMULATIONS = 50;
+
+// ERC-4337 EntryPoint event carrying the gas charged for each user operation in a bundle
+const USER_OPERATION_EVENT_ABI = parseAbi([
+  "event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)",
+]);
+
+export type { CardDisplay, ContractSnapshot, GameDisplay, PlayerStats } from "./chain-reader";
+
+// Player transactions sent by the game loop
+export type ContractAction = "startGame" | "hit" | "stand" | "claimWinnings" | "cancelStuckGame";
+
+// Contract event decoded from a transaction receipt
+export interface DecodedEvent {
+  eventName: string;
+  args: Record<string, unknown>;
 }
 
-interface GameDisplay {
-  status: string;
-  playerCards: CardDisplay[];
-  playerTotal: number;
-  dealerCards: CardDisplay[];
-  dealerTotal: number;
-  canHit: boolean;
-  canStand: boolean;
-  canStartNew: boolean;
-  canCancelStuck: boolean;
-  canAdminResolve: boolean;
-  startedAt: bigint;
-  lastActionAt: bigint;
-  tradingPeriodEnds: bigint;
-  secondsUntilCanAct: bigint;
-  gameId: bigint;
+// Gas charged for our user operation (from the EntryPoint's UserOperationEvent)
+export interface GasCost {
+  gasUsed: bigint;
+  costWei: bigint; // Total charged, by the paymaster when sponsored
+  sponsored: boolean; // Paid by a paymaster (PAYMASTER_URL) rather than the smart wallet
+  paymaster: string | null;
+  l1FeeWei: bigint | null; // L1 data fee of the bundle transaction, already covered by costWei; null if unknown
 }
 
-interface QuickStatus {
-  state: string;
-  playerTotal: number;
-  dealerTotal: number;
-  canAct: boolean;
-  tradingPeriodEnds: bigint;
+// eth_call run before every transaction (and instead of it in dry-run mode)
+export interface SimulationReport {
+  action: ContractAction;
+  valueWei: string;
+  blockNumber: string;
+  success: boolean;
+  revertReason: string | null;
+  errorType: string | null; // ContractRevertError subclass when the call would revert
+  sent: boolean; // Went on to be sent (false in dry-run mode and when it would revert)
+  simulatedAt: number;
 }
 
-interface PlayerStats {
-  gamesPlayed: bigint;
-  gamesWon: bigint;
-  gamesLost: bigint;
-  gamesPushed: bigint;
-  playerBusts: bigint;
-  winRate: number;
+// Outcome of a contract transaction
+export interface TransactionResult {
+  action: ContractAction;
+  success: boolean;
+  userOpHash: string | null;
+  transactionHash: string | null;
+  blockNumber: bigint | null;
+  events: DecodedEvent[];
+  gas: GasCost | null; // null if the operation was never mined
+  revertReason: string | null; // Decoded require() message when the call reverted
+  error: string | null;
+  dryRun: boolean; // Simulated only, nothing was sent (`success` says whether it would have gone through)
+  simulation: SimulationReport | null;
 }
 
-enum HandState {
-  None = 0,
-  PendingInitialDeal = 1,
-  Active = 2,
-  PendingHit = 3,
-  PendingStand = 4,
-  Busted = 5,
-  Finished = 6,
+// Notified around every contract transaction (used to journal pending transactions)
+export interface TransactionObserver {
+  onPending(action: ContractAction, userOpHash: string | null): void; // Before sending (no hash yet) and once sent
+  onSettled(result: TransactionResult): void;
 }
 
 /**
  * Direct RPC Client for Blackjack Contract
  */
-export class BlackjackRPCClient {
+export class BlackjackRPCClient extends BlackjackReader {
   private walletProvider: CdpSmartWalletProvider;
-  private contractAddress: string;
-  private playerAddress: string;
+  private eventWatcher: ContractEventWatcher | null = null;
+  private transactionObserver: TransactionObserver | null = null;
+  private simulations: SimulationReport[] = [];
 
   constructor(
     walletProvider: CdpSmartWalletProvider,
     contractAddress: string,
     playerAddress: string
   ) {
+    super(contractAddress, playerAddress);
     this.walletProvider = walletProvider;
-    this.contractAddress = contractAddress;
-    this.playerAddress = playerAddress;
   }
 
   /**
-   * Get full game status with all details
+   * Start watching contract events so waits wake up as soon as our game changes
    */
-  async getGameStatus(): Promise<GameDisplay> {
-    try {
-      const result = await this.walletProvider.readContract({
-        address: this.contractAddress as `0x${string}`,
-        abi: BlackjackAbi,
-        functionName: "getGameDisplay",
-        args: [this.playerAddress],
-      });
+  startEventWatcher(): void {
+    if (!this.eventWatcher) {
+      this.eventWatcher = new ContractEventWatcher(this.publicClient, this.contractAddress, this.playerAddress);
+    }
+    this.eventWatcher.start();
+  }
 
-      return result as unknown as GameDisplay;
-    } catch (error) {
-      console.error("❌ Failed to get game status:", error);
-      throw error;
+  /**
+   * Stop watching contract events (waits fall back to 2-second polling)
+   */
+  stopEventWatcher(): void {
+    this.eventWatcher?.stop();
+  }
+
+  /**
+   * Get the event watcher, if one was started
+   */
+  getEventWatcher(): ContractEventWatcher | null {
+    return this.eventWatcher;
+  }
+
+  /**
+   * Events seen so far by the watcher (0 when not watching), to pass to waitForGameEvent
+   */
+  getGameEventCount(): number {
+    return this.eventWatcher?.getEventCount() ?? 0;
+  }
+
+  /**
+   * Wait until the next event for our game or the poll interval elapses
+   * Returns the event that woke us, or null on timeout / when not watching
+   * afterCount (getGameEventCount taken before the last state read) returns at once if an event came in since
+   */
+  async waitForGameEvent(maxWaitMs?: number, afterCount?: number): Promise<GameEvent | null> {
+    if (this.eventWatcher?.isWatching()) {
+      return this.eventWatcher.waitForEvent(
+        Math.min(maxWaitMs ?? FALLBACK_POLL_INTERVAL_MS, FALLBACK_POLL_INTERVAL_MS),
+        afterCount
+      );
     }
+    await new Promise((resolve) => setTimeout(resolve, Math.min(maxWaitMs ?? POLL_INTERVAL_MS, POLL_INTERVAL_MS)));
+    return null;
   }
 
   /**
-   * Get quick status (lightweight alternative)
+   * Claim winnings directly (no AI needed)
+   * Returns the transaction hash, or null in dry-run mode (simulated, not sent)
    */
-  async getQuickStatus(): Promise<QuickStatus> {
-    try {
-      const result = await this.walletProvider.readContract({
-        address: this.contractAddress as `0x${string}`,
-        abi: BlackjackAbi,
-        functionName: "getQuickStatus",
-        args: [this.playerAddress],
-      });
+  async claimWinnings(gameId: bigint): Promise<string | null> {
+    console.log(`\n💰 Claiming winnings for game ${gameId}...`);
 
-      const [state, playerTotal, dealerTotal, canAct, tradingPeriodEnds] =
-        result as [string, number, number, boolean, bigint];
+    // First check if there are winnings to claim
+    const claimable = await this.getClaimableAmount(gameId);
+    if (claimable === 0n) {
+      throw new Error("No winnings to claim for this game");
+    }
 
-      return {
-        state,
-        playerTotal,
-        dealerTotal,
-        canAct,
-        tradingPeriodEnds,
-      };
-    } catch (error) {
-      console.error("❌ Failed to get quick status:", error);
-      throw error;
+    console.log(`💵 Claimable amount: ${claimable} wei`);
+
+    // Reverts before sending come back as typed errors (see contract-errors.ts)
+    const result = await this.sendContractTransaction("claimWinnings", [gameId]);
+    if (!result.success) {
+      throw new Error(`Claim failed: ${result.revertReason || result.error}`);
+    }
+    if (result.dryRun) {
+      return null;
     }
+
+    console.log(`💰 Successfully claimed ${claimable} wei!`);
+    return result.transactionHash || result.userOpHash || "";
+  }
+
+  /**
+   * Start a new game, paying `value` wei as the start fee
+   */
+  async startGame(value: bigint): Promise<TransactionResult> {
+    console.log(`\n🎲 Starting game with ${value} wei...`);
+    return this.sendContractTransaction("startGame", [], value);
   }
 
   /**
-   * Get player statistics
+   * Draw another card
    */
-  async getPlayerStats(): Promise<PlayerStats> {
+  async hit(): Promise<TransactionResult> {
+    console.log("\n👊 Sending hit()...");
+    return this.sendContractTransaction("hit", []);
+  }
+
+  /**
+   * End the player's turn
+   */
+  async stand(): Promise<TransactionResult> {
+    console.log("\n✋ Sending stand()...");
+    return this.sendContractTransaction("stand", []);
+  }
+
+  /**
+   * Cancel a game whose VRF callback never arrived (allowed once canCancelStuck is true)
+   */
+  async cancelStuckGame(): Promise<TransactionResult> {
+    console.log("\n🧯 Sending cancelStuckGame()...");
+    return this.sendContractTransaction("cancelStuckGame", []);
+  }
+
+  /**
+   * Recent simulations, newest first
+   */
+  getSimulations(): SimulationReport[] {
+    return [...this.simulations].reverse();
+  }
+
+  /**
+   * Observe contract transactions as they are sent and settle
+   */
+  setTransactionObserver(observer: TransactionObserver | null): void {
+    this.transactionObserver = observer;
+  }
+
+  /**
+   * Wait for a user operation sent earlier (e.g. before a restart) to be mined
+   */
+  async waitForUserOperation(action: ContractAction, userOpHash: string): Promise<TransactionResult> {
+    console.log(`\n⏳ Waiting for earlier ${action} (${userOpHash})...`);
+    const result = this.emptyResult(action);
+    result.userOpHash = userOpHash;
+    await this.waitForReceipt(result);
+    return result;
+  }
+
+  /**
+   * Simulate a contract call, then send it through the smart wallet and wait for it to be mined
+   * A call that would revert (or that the bundler rejects) throws a ContractRevertError
+   * subclass without being sent; a mined operation that fails comes back as `success: false`
+   */
+  private async sendContractTransaction<A extends ContractAction>(
+    action: A,
+    args: BlackjackWriteArgs<A>,
+    value?: bigint
+  ): Promise<TransactionResult> {
+    const data = encodeBlackjackCall(action, args);
+    const simulation = await this.simulate(action, data, value);
+
+    const result = this.emptyResult(action);
+    result.simulation = simulation;
+    if (DRY_RUN) {
+      console.log(`🧪 Dry run: ${action} would succeed at block ${simulation!.blockNumber}, not sent`);
+      result.success = true;
+      result.dryRun = true;
+      result.blockNumber = BigInt(simulation!.blockNumber);
+      return result;
+    }
+
+    if (simulation) {
+      simulation.sent = true;
+    }
+    this.transactionObserver?.onPending(action, null);
+
+    // Gas estimation runs the call, so most reverts surface here
     try {
-      const result = await this.walletProvider.readContract({
-        address: this.contractAddress as `0x${string}`,
-        abi: BlackjackAbi,
-        functionName: "getStats",
-        args: [this.playerAddress],
+      const userOpHash = await this.walletProvider.sendTransaction({
+        to: this.contractAddress as `0x${string}`,
+        data,
+        value,
       });
-
-      const [gamesPlayed, gamesWon, gamesLost, gamesPushed, playerBusts] = result as [
-        bigint,
-        bigint,
-        bigint,
-        bigint,
-        bigint
-      ];
-
-      const winRate =
-        gamesPlayed > 0n ? Number((gamesWon * 100n) / gamesPlayed) / 100 : 0;
-
-      return {
-        gamesPlayed,
-        gamesWon,
-        gamesLost,
-        gamesPushed,
-        playerBusts,
-        winRate,
-      };
+      result.userOpHash = userOpHash;
+      console.log(`📤 ${action} sent: ${userOpHash}`);
+      this.transactionObserver?.onPending(action, userOpHash);
     } catch (error) {
-      console.error("❌ Failed to get player stats:", error);
-      throw error;
+      result.revertReason = decodeRevertReason(error);
+      result.error = error instanceof Error ? error.message : String(error);
+      console.error(`❌ ${action} rejected: ${result.revertReason || result.error}`);
+      this.transactionObserver?.onSettled(result);
+      throw toContractError(action, error) ?? error;
     }
+
+    await this.waitForReceipt(result, data, value);
+    this.transactionObserver?.onSettled(result);
+    return result;
   }
 
   /**
-   * Check claimable winnings for a specific game
+   * Blank result for an action
    */
-  async getClaimableAmount(gameId: bigint): Promise<bigint> {
+  private emptyResult(action: ContractAction): TransactionResult {
+    return {
+      action,
+      success: false,
+      userOpHash: null,
+      transactionHash: null,
+      blockNumber: null,
+      events: [],
+      gas: null,
+      revertReason: null,
+      error: null,
+      dryRun: false,
+      simulation: null,
+    };
+  }
+
+  /**
+   * Wait for a sent user operation and fill in its receipt details
+   * With the calldata, a failed operation is replayed to recover its revert reason
+   */
+  private async waitForReceipt(result: TransactionResult, data?: `0x${string}`, value?: bigint): Promise<void> {
+    const action = result.action;
     try {
-      const result = await this.walletProvider.readContract({
-        address: this.contractAddress as `0x${string}`,
-        abi: BlackjackAbi,
-        functionName: "getClaimableAmount",
-        args: [gameId, this.playerAddress],
-      });
+      const receipt = await this.walletProvider.waitForTransactionReceipt(result.userOpHash as `0x${string}`);
+      result.transactionHash = receipt.transactionHash || null;
+
+      const logs: Log[] = receipt.logs || [];
+      result.blockNumber = logs[0]?.blockNumber ?? null;
+      result.events = this.decodeEvents(logs);
+      result.gas = this.decodeGasCost(logs, result.userOpHash);
+      if (result.gas && result.transactionHash) {
+        result.gas.l1FeeWei = await this.getL1Fee(result.transactionHash);
+      }
 
-      return result as bigint;
+      if (receipt.status === "complete") {
+        result.success = true;
+        console.log(`✅ ${action} confirmed: ${result.transactionHash}`);
+      } else {
+        // Receipts carry no revert data, replay the call to recover the reason
+        result.revertReason = data ? await this.replayForRevertReason(data, value) : null;
+        result.error = `User operation ${receipt.status}`;
+        console.error(`❌ ${action} failed on-chain: ${result.revertReason || result.error}`);
+      }
     } catch (error) {
-      console.error("❌ Failed to check claimable amount:", error);
-      throw error;
+      result.error = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Failed waiting for ${action} receipt:`, error);
     }
   }
 
   /**
-   * Claim winnings directly (no AI needed)
+   * Decode this contract's events from receipt logs
    */
-  async claimWinnings(gameId: bigint): Promise<string> {
-    try {
-      console.log(`\n💰 Claiming winnings for game ${gameId}...`);
+  private decodeEvents(logs: Log[]): DecodedEvent[] {
+    const contractLogs = logs.filter((log) => log.address.toLowerCase() === this.contractAddress.toLowerCase());
 
-      // First check if there are winnings to claim
-      const claimable = await this.getClaimableAmount(gameId);
-      if (claimable === 0n) {
-        throw new Error("No winnings to claim for this game");
-      }
+    return parseEventLogs({ abi: blackjackAbi, logs: contractLogs }).map((log) => ({
+      eventName: log.eventName,
+      args: log.args as Record<string, unknown>,
+    }));
+  }
 
-      console.log(`💵 Claimable amount: ${claimable} wei`);
+  /**
+   * Find the gas charged for our user operation among the bundle's logs
+   */
+  private decodeGasCost(logs: Log[], userOpHash: string | null): GasCost | null {
+    if (!userOpHash) {
+      return null;
+    }
 
-      // Encode the claim transaction
-      const data = encodeFunctionData({
-        abi: BlackjackAbi,
-        functionName: "claimWinnings",
-        args: [gameId],
-      });
+    const event = parseEventLogs({ abi: USER_OPERATION_EVENT_ABI, logs }).find(
+      (log) => log.args.userOpHash.toLowerCase() === userOpHash.toLowerCase()
+    );
+    if (!event) {
+      return null;
+    }
 
-      // Send the transaction
-      const hash = await this.walletProvider.sendTransaction({
-        to: this.contractAddress as `0x${string}`,
-        data: data as `0x${string}`,
+    const sponsored = event.args.paymaster !== zeroAddress;
+    return {
+      gasUsed: event.args.actualGasUsed,
+      costWei: event.args.actualGasCost,
+      sponsored,
+      paymaster: sponsored ? event.args.paymaster : null,
+      l1FeeWei: null,
+    };
+  }
+
+  /**
+   * L1 data fee from a Base transaction receipt (the bundler pays it and charges it back
+   * through the operation's preVerificationGas, so it's part of the operation's cost)
+   */
+  private async getL1Fee(transactionHash: string): Promise<bigint | null> {
+    try {
+      const receipt = await this.publicClient.getTransactionReceipt({ hash: transactionHash as `0x${string}` });
+      return (receipt as { l1Fee?: bigint | null }).l1Fee ?? null;
+    } catch (error) {
+      console.warn("⚠️  Failed to read the bundle's L1 fee:", error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Run a call with eth_call at the latest block and throw its typed revert error if it would fail
+   * Errors that aren't reverts (e.g. every RPC endpoint down) are logged and the send goes ahead
+   * (returns null); in dry-run mode they are thrown, since there is nothing to report
+   */
+  private async simulate(
+    action: ContractAction,
+    data: `0x${string}`,
+    value?: bigint
+  ): Promise<SimulationReport | null> {
+    let blockNumber: bigint | null = null;
+    try {
+      blockNumber = await this.publicClient.getBlockNumber({ cacheTime: 0 });
+      await this.publicClient.call({
+        account: this.playerAddress,
+        to: this.contract.address,
+        data,
+        value,
+        blockNumber,
       });
+    } catch (error) {
+      const revert = toContractError(action, error);
+      if (!revert) {
+        if (DRY_RUN) {
+          throw error;
+        }
+        console.warn(`⚠️  Could not simulate ${action}, sending anyway:`, error instanceof Error ? error.message : error);
+        return null;
+      }
 
-      console.log(`✅ Claim transaction sent: ${hash}`);
+      console.error(`❌ ${action} would revert: ${revert.reason || revert.message}`);
+      this.recordSimulation({
+        action,
+        valueWei: (value ?? 0n).toString(),
+        blockNumber: blockNumber?.toString() ?? "",
+        success: false,
+        revertReason: revert.reason,
+        errorType: revert.name,
+        sent: false,
+        simulatedAt: Date.now(),
+      });
+      throw revert;
+    }
 
-      // Wait for confirmation
-      const receipt = await this.walletProvider.waitForTransactionReceipt(hash as `0x${string}`);
+    return this.recordSimulation({
+      action,
+      valueWei: (value ?? 0n).toString(),
+      blockNumber: blockNumber!.toString(),
+      success: true,
+      revertReason: null,
+      errorType: null,
+      sent: false,
+      simulatedAt: Date.now(),
+    });
+  }
 
-      console.log(`✅ Claim confirmed in block ${receipt.blockNumber}`);
-      console.log(`💰 Successfully claimed ${claimable} wei!`);
+  private recordSimulation(report: SimulationReport): SimulationReport {
+    this.simulations.push(report);
+    if (this.simulations.length > MAX_SIMULATIONS) {
+      this.simulations.shift();
+    }
+    return report;
+  }
 
-      return hash;
+  /**
+   * Re-run a failed call with eth_call to get its revert reason
+   */
+  private async replayForRevertReason(data: `0x${string}`, value?: bigint): Promise<string | null> {
+    try {
+      await this.publicClient.call({
+        account: this.playerAddress,
+        to: this.contract.address,
+        data,
+        value,
+      });
+      return null; // Succeeds now, state changed since
     } catch (error) {
-      console.error("❌ Failed to claim winnings:", error);
-      throw error;
+      return decodeRevertReason(error);
     }
   }
 
   /**
    * Poll game state until VRF callback completes
-   * Returns when the game exits the specified pending state
+   * Returns when the game exits the specified pending state, or when it is
+   * stuck in it long enough to be cancelled (`canCancelStuck`)
    */
   async pollForStateChange(
     initialState: HandState,
@@ -235,7 +481,6 @@ export class BlackjackRPCClient {
     shouldStop: () => boolean = () => false
   ): Promise<GameDisplay> {
     const startTime = Date.now();
-    const pollInterval = 2000; // 2 seconds
     let pollCount = 0;
 
     console.log(`\n🔄 Polling for state change from ${HandState[initialState]}...`);
@@ -251,26 +496,29 @@ export class BlackjackRPCClient {
       pollCount++;
       const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
 
-      // Get current game state
+      // Get current game state (an event landing during the read is caught by the wait below)
+      const eventCount = this.getGameEventCount();
       const gameDisplay = await this.getGameStatus();
-      const currentStateStr = gameDisplay.status.toLowerCase();
-
-      console.log(`[Poll #${pollCount} @ ${elapsed}s] Status: "${gameDisplay.status}"`);
 
-      // Check if we're still in the pending state
-      const stillPending =
-        (initialState === HandState.PendingInitialDeal && currentStateStr.includes("dealing")) ||
-        (initialState === HandState.PendingHit && currentStateStr.includes("drawing")) ||
-        (initialState === HandState.PendingStand && currentStateStr.includes("dealer playing"));
+      console.log(`[Poll #${pollCount} @ ${elapsed}s] State: ${HandState[gameDisplay.state]} ("${gameDisplay.status}")`);
 
       // If we've exited the pending state, return the new state
-      if (!stillPending) {
-        console.log(`✅ State changed! New status: "${gameDisplay.status}"`);
+      if (gameDisplay.state !== initialState) {
+        console.log(`✅ State changed! New state: ${HandState[gameDisplay.state]}`);
+        return gameDisplay;
+      }
+
+      // VRF timeout elapsed, the callback is lost; caller decides whether to cancel
+      if (gameDisplay.canCancelStuck) {
+        console.log(`⚠️  VRF timeout elapsed while in ${HandState[initialState]}, game can be cancelled`);
         return gameDisplay;
       }
 
-      // Wait before next poll
-      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+      // Wait for a game event (or the next poll)
+      const event = await this.waitForGameEvent(maxWaitTime - (Date.now() - startTime), eventCount);
+      if (event) {
+        console.log(`⚡ Woken by ${event.eventName}`);
+      }
     }
 
     throw new Error(`Timeout waiting for state change from ${HandState[initialState]}`);
@@ -278,6 +526,7 @@ export class BlackjackRPCClient {
 
   /**
    * Poll until trading period ends (60 seconds after game start)
+   * The end is a timestamp, so this sleeps up to the remaining time rather than waiting on an event
    */
   async waitForTradingPeriod(shouldStop: () => boolean = () => false): Promise<void> {
     console.log("\n⏳ Waiting for trading period to end...");
@@ -299,47 +548,7 @@ export class BlackjackRPCClient {
       }
 
       console.log(`⏳ ${secondsLeft}s remaining in trading period...`);
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-    }
-  }
-
-  /**
-   * Check if game is in a state where we need to wait for VRF
-   */
-  isWaitingForVRF(status: string): boolean {
-    const statusLower = status.toLowerCase();
-    return (
-      statusLower.includes("dealing") ||
-      statusLower.includes("drawing") ||
-      statusLower.includes("dealer playing")
-    );
-  }
-
-  /**
-   * Check if game is complete
-   */
-  isGameComplete(status: string): boolean {
-    const statusLower = status.toLowerCase();
-    return (
-      statusLower.includes("you win") ||
-      statusLower.includes("dealer wins") ||
-      statusLower.includes("push") ||
-      statusLower.includes("busted") ||
-      statusLower.includes("finished") ||
-      statusLower.includes("game over")
-    );
-  }
-
-  /**
-   * Get wallet ETH balance
-   */
-  async getBalance(): Promise<bigint> {
-    try {
-      const balance = await this.walletProvider.getBalance();
-      return balance;
-    } catch (error) {
-      console.error("❌ Failed to get balance:", error);
-      throw error;
+      await this.waitForGameEvent(secondsLeft * 1000);
     }
   }
 }
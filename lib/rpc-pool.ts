@@ -0,0 +1,238 @@
+/**
+ * RPC Endpoint Pool
+ *
+ * Spreads JSON-RPC requests over the endpoints in RPC_URLS (plus RPC_URL).
+ * Each endpoint keeps a health score from its recent latency and error rate;
+ * requests go to the healthiest one and fail over to the next on transient
+ * errors (network failures, timeouts, rate limits). Idempotent reads are
+ * retried with exponential backoff; anything that sends a transaction gets a
+ * single attempt so it can't be submitted twice. Endpoints that fail several
+ * times in a row sit out a cooldown.
+ */
+
+import { BaseError, HttpRequestError, RpcError, RpcRequestError, TimeoutError, http } from "viem";
+import type { Chain } from "viem";
+
+// Attempts after the first for idempotent requests
+const RPC_MAX_RETRIES = parseInt(process.env.RPC_MAX_RETRIES || "3", 10);
+
+// First backoff delay, doubled on every retry
+const RPC_RETRY_BASE_MS = parseInt(process.env.RPC_RETRY_BASE_MS || "250", 10);
+
+// Per-request timeout
+const RPC_TIMEOUT_MS = parseInt(process.env.RPC_TIMEOUT_MS || "10000", 10);
+
+// Consecutive failures before an endpoint sits out, and for how long
+const RPC_FAILURES_BEFORE_COOLDOWN = parseInt(process.env.RPC_FAILURES_BEFORE_COOLDOWN || "3", 10);
+const RPC_COOLDOWN_MS = parseInt(process.env.RPC_COOLDOWN_MS || "30000", 10);
+
+// Weight of the newest sample in the moving averages
+const HEALTH_SMOOTHING = 0.2;
+
+// Each point of error rate costs as much as this many milliseconds of latency
+const ERROR_RATE_PENALTY_MS = 5000;
+
+// Requests that submit something; never retried
+const NON_IDEMPOTENT_METHODS = new Set(["eth_sendRawTransaction", "eth_sendTransaction", "eth_sendUserOperation"]);
+
+// JSON-RPC error codes a different endpoint (or a later retry) may not return
+// (limit exceeded, internal error, resource unavailable)
+const TRANSIENT_RPC_CODES = new Set([-32005, -32603, -32002]);
+
+// Endpoint health as shown in the status API (the URL is reduced to its host, keys stay private)
+export interface RpcEndpointHealth {
+  host: string;
+  score: number; // Lower is better
+  latencyMs: number | null; // Moving average of successful requests
+  errorRate: number; // Moving average, 0 to 1
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  coolingDownUntil: number | null;
+  lastError: string | null;
+  lastSuccessAt: number | null;
+}
+
+type RpcRequest = (args: { method: string; params?: unknown }) => Promise<unknown>;
+
+interface Endpoint {
+  url: string;
+  request: RpcRequest;
+  health: RpcEndpointHealth;
+}
+
+/**
+ * Pool of RPC endpoints with health scoring and failover
+ */
+export class RpcPool {
+  private endpoints: Endpoint[];
+
+  constructor(urls: string[], chain: Chain) {
+    this.endpoints = urls.map((url) => ({
+      url,
+      request: http(url, { retryCount: 0, timeout: RPC_TIMEOUT_MS })({ chain, retryCount: 0 }).request as RpcRequest,
+      health: {
+        host: hostOf(url),
+        score: 0,
+        latencyMs: null,
+        errorRate: 0,
+        requests: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        coolingDownUntil: null,
+        lastError: null,
+        lastSuccessAt: null,
+      },
+    }));
+  }
+
+  /**
+   * EIP-1193 request function, for viem's custom() transport
+   */
+  request: RpcRequest = async (args) => {
+    const attempts = NON_IDEMPOTENT_METHODS.has(args.method) ? 1 : RPC_MAX_RETRIES + 1;
+    let lastError: unknown = null;
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      if (attempt > 0) {
+        await new Promise((resolve) => setTimeout(resolve, RPC_RETRY_BASE_MS * 2 ** (attempt - 1)));
+      }
+
+      const endpoint = this.pickEndpoint();
+      const startedAt = Date.now();
+      try {
+        const result = await endpoint.request(args);
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+        return result;
+      } catch (error) {
+        // A revert or bad params fails the same way everywhere, and says nothing about the endpoint
+        if (!isTransientRpcError(error)) {
+          this.recordSuccess(endpoint, Date.now() - startedAt);
+          throw error;
+        }
+
+        this.recordFailure(endpoint, error);
+        lastError = error;
+        console.warn(
+          `⚠️  RPC ${args.method} failed on ${endpoint.health.host} (attempt ${attempt + 1}/${attempts}): ` +
+            errorMessage(error)
+        );
+      }
+    }
+
+    throw lastError;
+  };
+
+  /**
+   * Health of every endpoint, best first
+   */
+  getHealth(): RpcEndpointHealth[] {
+    return this.endpoints
+      .map((endpoint) => ({
+        ...endpoint.health,
+        score: this.score(endpoint),
+        latencyMs: endpoint.health.latencyMs === null ? null : Math.round(endpoint.health.latencyMs),
+        errorRate: Math.round(endpoint.health.errorRate * 1000) / 1000,
+      }))
+      .sort((a, b) => a.score - b.score);
+  }
+
+  /**
+   * Healthiest endpoint not cooling down; if all are, the one back soonest
+   */
+  private pickEndpoint(): Endpoint {
+    const now = Date.now();
+    const available = this.endpoints.filter(
+      (endpoint) => !endpoint.health.coolingDownUntil || endpoint.health.coolingDownUntil <= now
+    );
+
+    if (available.length === 0) {
+      return this.endpoints.reduce((best, endpoint) =>
+        endpoint.health.coolingDownUntil! < best.health.coolingDownUntil! ? endpoint : best
+      );
+    }
+
+    return available.reduce((best, endpoint) => (this.score(endpoint) < this.score(best) ? endpoint : best));
+  }
+
+  /**
+   * Expected cost of a request: average latency plus a penalty for recent errors
+   * Untried endpoints score 0 so each gets a chance
+   */
+  private score(endpoint: Endpoint): number {
+    const { latencyMs, errorRate } = endpoint.health;
+    return Math.round((latencyMs ?? 0) + errorRate * ERROR_RATE_PENALTY_MS);
+  }
+
+  private recordSuccess(endpoint: Endpoint, latencyMs: number): void {
+    const health = endpoint.health;
+    health.requests++;
+    health.latencyMs =
+      health.latencyMs === null ? latencyMs : health.latencyMs + HEALTH_SMOOTHING * (latencyMs - health.latencyMs);
+    health.errorRate -= HEALTH_SMOOTHING * health.errorRate;
+    health.consecutiveFailures = 0;
+    health.coolingDownUntil = null;
+    health.lastSuccessAt = Date.now();
+  }
+
+  private recordFailure(endpoint: Endpoint, error: unknown): void {
+    const health = endpoint.health;
+    health.requests++;
+    health.failures++;
+    health.errorRate += HEALTH_SMOOTHING * (1 - health.errorRate);
+    health.consecutiveFailures++;
+    health.lastError = errorMessage(error);
+
+    if (health.consecutiveFailures >= RPC_FAILURES_BEFORE_COOLDOWN && this.endpoints.length > 1) {
+      health.coolingDownUntil = Date.now() + RPC_COOLDOWN_MS;
+      console.warn(`⚠️  RPC ${health.host} failed ${health.consecutiveFailures} times in a row, cooling down`);
+    }
+  }
+}
+
+/**
+ * Endpoint URLs from RPC_URLS (comma-separated) and RPC_URL, deduped
+ * Empty if neither is set
+ */
+export function getRpcUrls(): string[] {
+  const urls = [...(process.env.RPC_URLS || "").split(","), process.env.RPC_URL || ""]
+    .map((url) => url.trim())
+    .filter(Boolean);
+  return Array.from(new Set(urls));
+}
+
+/**
+ * Whether a different endpoint or a later retry might succeed
+ */
+export function isTransientRpcError(error: unknown): boolean {
+  if (error instanceof TimeoutError) {
+    return true;
+  }
+  if (error instanceof HttpRequestError) {
+    // No status means the request never got a response
+    return error.status === undefined || error.status === 429 || error.status >= 500;
+  }
+  if (error instanceof RpcError || error instanceof RpcRequestError) {
+    const text = `${error.shortMessage} ${error.details}`;
+    if (/revert/i.test(text)) {
+      return false;
+    }
+    return TRANSIENT_RPC_CODES.has(error.code) || /rate limit|header not found|timeout/i.test(text);
+  }
+  return false;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return "invalid-url";
+  }
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof BaseError) {
+    return error.shortMessage;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,341 @@
+/**
+ * Game Sessions
+ *
+ * A session is one run of autonomous play: N games, a time window, or until a
+ * stop condition (stop-loss, take-profit, minimum balance, losing streak,
+ * paymaster budget) hits. Stop-loss and take-profit are measured on the
+ * session's realized P&L from the ledger (wASS returned valued at the entry
+ * price, minus the ETH paid in and gas), since startGame swaps the bet into
+ * wASS and winnings are paid in wASS, so the ETH balance only goes down. The
+ * minimum balance is the wallet's ETH balance; the paymaster budget is the gas
+ * the paymaster sponsored.
+ */
+
+import { formatEther } from "viem";
+import { GameResult } from "./game-loop";
+import type { SessionStats } from "./game-loop";
+import type { GasCost } from "./rpc-client";
+
+// Default paymaster budget per session, for sessions that don't set one
+const PAYMASTER_BUDGET_ETH = paymasterBudgetFromEnv();
+
+export interface SessionConfig {
+  maxGames?: number; // Stop after this many games
+  durationMinutes?: number; // Don't start new games after this long
+  stopLossEth?: number; // Stop once realized P&L is down this much ETH
+  takeProfitEth?: number; // Stop once realized P&L is up this much ETH
+  minBalanceEth?: number; // Stop before the balance falls below this
+  maxConsecutiveLosses?: number; // Stop after this many losses in a row
+  paymasterBudgetEth?: number; // Stop once the paymaster sponsored this much gas
+}
+
+// Without any condition a session plays a single game
+export const DEFAULT_SESSION_CONFIG: SessionConfig = { maxGames: 1 };
+
+export type SessionStopReason =
+  | "max_games"
+  | "duration"
+  | "stop_loss"
+  | "take_profit"
+  | "min_balance"
+  | "max_consecutive_losses"
+  | "paymaster_budget"
+  | "stopped"
+  | "rejected" // Operator rejected starting the next game
+  | "dry_run" // Dry-run mode simulated the next transaction (nothing is sent, so play can't go on)
+  | "error";
+
+export interface SessionProgress {
+  id: string;
+  config: SessionConfig;
+  isActive: boolean;
+  startedAt: number;
+  elapsedMs: number;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  pushes: number;
+  busts: number;
+  consecutiveLosses: number;
+  startBalanceEth: number;
+  balanceEth: number;
+  netEth: number; // Realized P&L of the session's games, in ETH
+  gasPaidEth: number; // Gas paid by the wallet
+  gasSponsoredEth: number; // Gas paid by the paymaster
+  decisionStats: SessionStats;
+}
+
+export interface SessionSummary extends SessionProgress {
+  endedAt: number;
+  stopReason: SessionStopReason;
+  error?: string;
+}
+
+// Checkpointed session, restored after a restart
+export interface SessionSnapshot {
+  id: string;
+  config: SessionConfig;
+  startedAt: number;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  pushes: number;
+  busts: number;
+  consecutiveLosses: number;
+  startBalanceEth: number;
+  balanceEth: number;
+  netEth?: number; // Missing in checkpoints from before P&L tracking
+  gasPaidEth?: number; // Missing in checkpoints from before gas tracking
+  gasSponsoredEth?: number;
+  decisionStats: SessionStats;
+}
+
+const CONFIG_KEYS: Array<keyof SessionConfig> = [
+  "maxGames",
+  "durationMinutes",
+  "stopLossEth",
+  "takeProfitEth",
+  "minBalanceEth",
+  "maxConsecutiveLosses",
+  "paymasterBudgetEth",
+];
+
+/**
+ * Validate a session config from an API request
+ * Returns an error message, or null if valid
+ */
+export function validateSessionConfig(value: unknown): string | null {
+  if (typeof value !== "object" || value === null) {
+    return "session must be an object";
+  }
+
+  for (const [key, field] of Object.entries(value)) {
+    if (!CONFIG_KEYS.includes(key as keyof SessionConfig)) {
+      return `Unknown session option "${key}". Use: ${CONFIG_KEYS.join(", ")}`;
+    }
+    if (field === undefined) continue;
+    if (typeof field !== "number" || !Number.isFinite(field) || field < 0) {
+      return `session.${key} must be a non-negative number`;
+    }
+    if ((key === "maxGames" || key === "maxConsecutiveLosses") && (!Number.isInteger(field) || field === 0)) {
+      return `session.${key} must be a positive integer`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Tracks one session's progress and stop conditions
+ */
+export class GameSession {
+  readonly id: string;
+  private config: SessionConfig;
+  private startedAt = Date.now();
+  private endedAt: number | null = null;
+  private stopReason: SessionStopReason | null = null;
+  private error: string | undefined;
+  private gamesPlayed = 0;
+  private wins = 0;
+  private losses = 0;
+  private pushes = 0;
+  private busts = 0;
+  private consecutiveLosses = 0;
+  private startBalanceEth: number;
+  private balanceEth: number;
+  private netEth = 0;
+  private gasPaidEth = 0;
+  private gasSponsoredEth = 0;
+  private decisionStats: SessionStats = { decisions: 0, deviations: 0, overrides: 0, evSaved: 0 };
+
+  constructor(config: SessionConfig, startBalance: bigint, id: string = crypto.randomUUID()) {
+    this.id = id;
+    this.config = Object.values(config).some((value) => value !== undefined) ? config : DEFAULT_SESSION_CONFIG;
+    this.startBalanceEth = parseFloat(formatEther(startBalance));
+    this.balanceEth = this.startBalanceEth;
+  }
+
+  /**
+   * Rebuild an unfinished session from a checkpoint
+   */
+  static restore(snapshot: SessionSnapshot): GameSession {
+    const session = new GameSession(snapshot.config, 0n, snapshot.id);
+    session.startedAt = snapshot.startedAt;
+    session.gamesPlayed = snapshot.gamesPlayed;
+    session.wins = snapshot.wins;
+    session.losses = snapshot.losses;
+    session.pushes = snapshot.pushes;
+    session.busts = snapshot.busts;
+    session.consecutiveLosses = snapshot.consecutiveLosses;
+    session.startBalanceEth = snapshot.startBalanceEth;
+    session.balanceEth = snapshot.balanceEth;
+    session.netEth = snapshot.netEth ?? 0;
+    session.gasPaidEth = snapshot.gasPaidEth ?? 0;
+    session.gasSponsoredEth = snapshot.gasSponsoredEth ?? 0;
+    session.decisionStats = { ...snapshot.decisionStats };
+    return session;
+  }
+
+  /**
+   * Checkpoint of the session's progress
+   */
+  toSnapshot(): SessionSnapshot {
+    return {
+      id: this.id,
+      config: this.config,
+      startedAt: this.startedAt,
+      gamesPlayed: this.gamesPlayed,
+      wins: this.wins,
+      losses: this.losses,
+      pushes: this.pushes,
+      busts: this.busts,
+      consecutiveLosses: this.consecutiveLosses,
+      startBalanceEth: this.startBalanceEth,
+      balanceEth: this.balanceEth,
+      netEth: this.netEth,
+      gasPaidEth: this.gasPaidEth,
+      gasSponsoredEth: this.gasSponsoredEth,
+      decisionStats: { ...this.decisionStats },
+    };
+  }
+
+  /**
+   * Record what a settled transaction cost in gas
+   */
+  recordGas(gas: GasCost): void {
+    const costEth = parseFloat(formatEther(gas.costWei));
+    if (gas.sponsored) {
+      this.gasSponsoredEth += costEth;
+    } else {
+      this.gasPaidEth += costEth;
+    }
+  }
+
+  /**
+   * Record a finished game
+   * `netEth` is the realized P&L of the session's games so far, null if the ledger couldn't be read
+   */
+  recordGame(result: GameResult, balance: bigint | null, netEth: number | null, decisionStats: SessionStats): void {
+    this.gamesPlayed++;
+
+    switch (result) {
+      case GameResult.WIN:
+        this.wins++;
+        this.consecutiveLosses = 0;
+        break;
+      case GameResult.BUST:
+        this.busts++;
+        this.losses++;
+        this.consecutiveLosses++;
+        break;
+      case GameResult.LOSS:
+        this.losses++;
+        this.consecutiveLosses++;
+        break;
+      case GameResult.PUSH:
+        this.pushes++;
+        break;
+    }
+
+    if (balance !== null) {
+      this.balanceEth = parseFloat(formatEther(balance));
+    }
+    if (netEth !== null) {
+      this.netEth = netEth;
+    }
+    this.decisionStats = decisionStats;
+  }
+
+  /**
+   * Check whether the session should end before the next game
+   */
+  checkStop(): SessionStopReason | null {
+    const { maxGames, durationMinutes, stopLossEth, takeProfitEth, minBalanceEth, maxConsecutiveLosses } = this.config;
+    const paymasterBudgetEth = this.config.paymasterBudgetEth ?? PAYMASTER_BUDGET_ETH;
+
+    if (maxGames !== undefined && this.gamesPlayed >= maxGames) return "max_games";
+    if (durationMinutes !== undefined && Date.now() - this.startedAt >= durationMinutes * 60_000) return "duration";
+    if (stopLossEth !== undefined && this.netEth <= -stopLossEth) return "stop_loss";
+    if (takeProfitEth !== undefined && this.netEth >= takeProfitEth) return "take_profit";
+    if (minBalanceEth !== undefined && this.balanceEth < minBalanceEth) return "min_balance";
+    if (maxConsecutiveLosses !== undefined && this.consecutiveLosses >= maxConsecutiveLosses) {
+      return "max_consecutive_losses";
+    }
+    if (paymasterBudgetEth !== undefined && this.gasSponsoredEth >= paymasterBudgetEth) return "paymaster_budget";
+
+    return null;
+  }
+
+  /**
+   * End the session (first call wins)
+   */
+  finish(reason: SessionStopReason, error?: string): SessionSummary {
+    if (this.stopReason === null) {
+      this.stopReason = reason;
+      this.error = error;
+      this.endedAt = Date.now();
+    }
+    return this.getSummary();
+  }
+
+  /**
+   * Whether the session has ended
+   */
+  isFinished(): boolean {
+    return this.stopReason !== null;
+  }
+
+  /**
+   * Current progress
+   */
+  getProgress(): SessionProgress {
+    return {
+      id: this.id,
+      config: this.config,
+      isActive: !this.isFinished(),
+      startedAt: this.startedAt,
+      elapsedMs: (this.endedAt ?? Date.now()) - this.startedAt,
+      gamesPlayed: this.gamesPlayed,
+      wins: this.wins,
+      losses: this.losses,
+      pushes: this.pushes,
+      busts: this.busts,
+      consecutiveLosses: this.consecutiveLosses,
+      startBalanceEth: this.startBalanceEth,
+      balanceEth: this.balanceEth,
+      netEth: this.netEth,
+      gasPaidEth: this.gasPaidEth,
+      gasSponsoredEth: this.gasSponsoredEth,
+      decisionStats: { ...this.decisionStats },
+    };
+  }
+
+  /**
+   * Summary of a finished session
+   */
+  getSummary(): SessionSummary {
+    return {
+      ...this.getProgress(),
+      endedAt: this.endedAt ?? Date.now(),
+      stopReason: this.stopReason ?? "stopped",
+      error: this.error,
+    };
+  }
+}
+
+/**
+ * PAYMASTER_BUDGET_ETH, or no default budget if it's unset or not a non-negative number
+ */
+function paymasterBudgetFromEnv(): number | undefined {
+  const raw = process.env.PAYMASTER_BUDGET_ETH;
+  if (!raw) {
+    return undefined;
+  }
+
+  const budget = Number(raw);
+  if (!Number.isFinite(budget) || budget < 0) {
+    console.warn(`⚠️  Invalid PAYMASTER_BUDGET_ETH "${raw}", sessions get no default paymaster budget`);
+    return undefined;
+  }
+  return budget;
+}
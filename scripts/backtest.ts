@@ -0,0 +1,88 @@
+/**
+ * Backtest a decision strategy offline
+ *
+ * Usage:
+ *   npm run backtest -- --strategy optimal --hands 100000 --seed 42
+ *   npm run backtest -- --strategy table --json
+ *
+ * The "ai" and "hybrid" strategies call the LLM and need OPENAI_API_KEY.
+ */
+
+import { runBacktest } from "../lib/backtest";
+import type { BacktestReport } from "../lib/backtest";
+import { OptimalStrategy, TableStrategy, isStrategyName, STRATEGY_NAMES } from "../lib/decision-strategy";
+import type { DecisionStrategy, StrategyName } from "../lib/decision-strategy";
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function loadStrategy(name: StrategyName): Promise<DecisionStrategy> {
+  if (name === "optimal") return new OptimalStrategy();
+  if (name === "table") return new TableStrategy();
+
+  // LLM strategies pull in the AI SDK, only load them when asked for
+  const { createDecisionStrategy } = await import("../lib/decision-strategy-factory");
+  return createDecisionStrategy(name);
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(2)}%`;
+}
+
+function printReport(report: BacktestReport) {
+  console.log(`\n📊 Backtest: ${report.strategy} (${report.hands} hands, seed ${report.seed})`);
+  console.log(`   EV per hand:  ${report.ev.toFixed(4)} ± ${(1.96 * report.standardError).toFixed(4)} (95%)`);
+  console.log(`   Win:          ${percent(report.winRate)}`);
+  console.log(`   Push:         ${percent(report.pushRate)}`);
+  console.log(`   Loss:         ${percent(report.lossRate)} (bust ${percent(report.bustRate)})`);
+  console.log(`   Naturals:     ${percent(report.naturalRate)}`);
+
+  console.log("\n   Situation            Hands    Hit %     EV");
+  for (const s of report.situations) {
+    console.log(
+      `   ${s.situation.padEnd(20)} ${String(s.hands).padStart(6)}  ${percent(s.hitRate).padStart(7)}  ${s.ev.toFixed(3).padStart(6)}`
+    );
+  }
+}
+
+async function main() {
+  const strategyName = getArg("strategy") || "optimal";
+  const hands = parseInt(getArg("hands") || "10000", 10);
+  const seedArg = getArg("seed");
+  const naturalArg = getArg("natural-payout");
+  const json = process.argv.includes("--json");
+
+  if (!isStrategyName(strategyName)) {
+    console.error(`❌ Unknown strategy "${strategyName}". Use one of: ${STRATEGY_NAMES.join(", ")}`);
+    process.exit(1);
+  }
+  if (!Number.isInteger(hands) || hands <= 0) {
+    console.error("❌ --hands must be a positive integer");
+    process.exit(1);
+  }
+
+  const strategy = await loadStrategy(strategyName);
+  const report = await runBacktest(strategy, {
+    hands,
+    seed: seedArg ? parseInt(seedArg, 10) : undefined,
+    naturalPayout: naturalArg ? parseFloat(naturalArg) : undefined,
+    onProgress: json
+      ? undefined
+      : (played) => {
+          if (played % 10000 === 0) console.log(`   ...${played}/${hands} hands`);
+        },
+  });
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Backtest failed:", error);
+  process.exit(1);
+});
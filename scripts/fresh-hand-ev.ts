@@ -0,0 +1,31 @@
+/**
+ * Exact EV of a fresh hand for the optimal and table strategies
+ *
+ * Usage:
+ *   npm run fresh-hand-ev
+ *
+ * Enumerates every initial deal with the exact-EV engine (freshHandEv in
+ * lib/optimal-strategy.ts) and prints the figures FRESH_HAND_EV in
+ * lib/decision-strategy.ts is set to. Takes about a minute. Run it after
+ * changing the dealing rules, the engine or the strategy table.
+ */
+
+import { FRESH_HAND_EV, TableStrategy } from "../lib/decision-strategy";
+import { freshHandEv } from "../lib/optimal-strategy";
+
+function main() {
+  const table = new TableStrategy();
+  const figures = {
+    optimal: freshHandEv(),
+    table: freshHandEv((context) => table.lookup(context).action),
+  };
+
+  console.log("\n📐 Exact EV per fresh hand (naturals score 0)");
+  for (const [name, ev] of Object.entries(figures)) {
+    const current = FRESH_HAND_EV[name as keyof typeof figures];
+    const note = current === Number(ev.toFixed(4)) ? "" : `  ⚠️  FRESH_HAND_EV has ${current}`;
+    console.log(`   ${name.padEnd(8)} ${ev.toFixed(6)}${note}`);
+  }
+}
+
+main();
@@ -0,0 +1,34 @@
+/**
+ * Generate lib/blackjack-abi.ts from Blackjackabi.json
+ *
+ * Usage:
+ *   npm run generate-abi
+ *
+ * Run after replacing Blackjackabi.json with a new build of the contract. The
+ * ABI is written `as const` so viem infers argument and return types from it,
+ * and any caller that no longer matches the contract fails to compile.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+const root = path.join(__dirname, "..");
+const source = path.join(root, "Blackjackabi.json");
+const target = path.join(root, "lib", "blackjack-abi.ts");
+
+const abi = JSON.parse(fs.readFileSync(source, "utf8"));
+
+const output = `/**
+ * Blackjack.sol ABI
+ *
+ * Generated from Blackjackabi.json by scripts/generate-abi.ts, do not edit.
+ * Regenerate with \`npm run generate-abi\`.
+ */
+
+export const blackjackAbi = ${JSON.stringify(abi, null, 2)} as const;
+
+export type BlackjackAbi = typeof blackjackAbi;
+`;
+
+fs.writeFileSync(target, output);
+console.log(`✅ Wrote ${path.relative(root, target)} (${abi.length} entries)`);
@@ -0,0 +1,32 @@
+/**
+ * Backtester: seeded runs must be reproducible so reported EVs can be rechecked
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { runBacktest } from "../lib/backtest";
+import { FRESH_HAND_EV, OptimalStrategy, TableStrategy } from "../lib/decision-strategy";
+
+describe("runBacktest", () => {
+  it("gives the same report for the same seed", async () => {
+    const first = await runBacktest(new TableStrategy(), { hands: 500, seed: 42 });
+    const second = await runBacktest(new TableStrategy(), { hands: 500, seed: 42 });
+
+    assert.deepEqual(second, first);
+  });
+
+  it("accounts for every hand", async () => {
+    const report = await runBacktest(new OptimalStrategy(), { hands: 500, seed: 7 });
+
+    assert.equal(report.hands, 500);
+    assert.ok(Math.abs(report.winRate + report.pushRate + report.lossRate - 1) < 1e-9);
+    assert.ok(report.bustRate <= report.lossRate);
+    assert.ok(report.ev >= -1 && report.ev <= 1);
+  });
+
+  it("agrees with the exact fresh-hand EV of the table strategy", async () => {
+    const report = await runBacktest(new TableStrategy(), { hands: 20000, seed: 42 });
+
+    assert.ok(Math.abs(report.ev - FRESH_HAND_EV.table!) < 4 * report.standardError);
+  });
+});
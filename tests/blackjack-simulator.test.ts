@@ -0,0 +1,175 @@
+/**
+ * Simulator against Blackjack.sol: known VRF words must give the contract's cards and results
+ *
+ * Expected cards are derived from a literal transcription of the Solidity
+ * (viem's encodePacked with the contract's integer widths), independent of the
+ * simulator's own byte packing, and pinned as card ids.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { encodePacked, hexToBigInt, keccak256 } from "viem";
+import { calculateHandValue, dealInitialHand, hit, isSoftHand, stand } from "../lib/blackjack-simulator";
+import type { SimulatedGame } from "../lib/blackjack-simulator";
+import { HandState, MarketResult } from "../lib/contract-types";
+
+// _drawUniqueCard: `attempts` is a uint256
+function referenceDraw(usedCards: number[], randomness: bigint): number {
+  let card = 0;
+  for (let attempts = 0n; attempts < 52n; attempts++) {
+    card = Number(randomness % 52n);
+    randomness = hexToBigInt(keccak256(encodePacked(["uint256", "uint256"], [randomness, attempts])));
+    if (!usedCards.includes(card)) break;
+  }
+  usedCards.push(card);
+  return card;
+}
+
+// _handleInitialDeal: the loop index `i` is a uint8
+function referenceDeal(randomness: bigint): { player: number[]; dealer: number[] } {
+  const used: number[] = [];
+  const player: number[] = [];
+  const dealer: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const card = referenceDraw(used, randomness);
+    randomness = hexToBigInt(keccak256(encodePacked(["uint256", "uint8"], [randomness, i])));
+    (i % 2 === 0 ? player : dealer).push(card);
+  }
+  return { player, dealer };
+}
+
+// Active game with the given hands (card ids), as if just dealt
+function activeGame(playerHand: number[], dealerHand: number[]): SimulatedGame {
+  return {
+    state: HandState.Active,
+    result: MarketResult.Pending,
+    playerHand: [...playerHand],
+    dealerHand: [...dealerHand],
+    usedCards: [...playerHand, ...dealerHand],
+    natural: false,
+  };
+}
+
+describe("dealInitialHand", () => {
+  it("deals the contract's cards for known VRF words", () => {
+    const expected: Record<string, { player: number[]; dealer: number[] }> = {
+      "1": { player: [1, 18], dealer: [30, 7] },
+      "2": { player: [2, 14], dealer: [1, 27] },
+      "42": { player: [42, 8], dealer: [18, 19] },
+    };
+
+    for (const [word, hands] of Object.entries(expected)) {
+      assert.deepEqual(referenceDeal(BigInt(word)), hands);
+
+      const game = dealInitialHand(BigInt(word));
+      assert.deepEqual(game.playerHand, hands.player);
+      assert.deepEqual(game.dealerHand, hands.dealer);
+      assert.equal(game.state, HandState.Active);
+      assert.equal(game.natural, false);
+    }
+  });
+
+  it("rehashes with a one-byte index between initial cards", () => {
+    // A uint256 index would pack 32 bytes and deal a different hand
+    const word = 42n;
+    const next = hexToBigInt(keccak256(encodePacked(["uint256", "uint8"], [word, 0])));
+    const wrongWidth = hexToBigInt(keccak256(encodePacked(["uint256", "uint256"], [word, 0n])));
+
+    assert.notEqual(next % 52n, wrongWidth % 52n);
+    assert.equal(dealInitialHand(word).dealerHand[0], Number(next % 52n));
+  });
+
+  it("refunds a natural instantly as a win", () => {
+    // A♣ Q♣ against 9♠ 4♦
+    const game = dealInitialHand(52n);
+
+    assert.deepEqual(game.playerHand, [0, 11]);
+    assert.deepEqual(game.dealerHand, [47, 16]);
+    assert.equal(game.natural, true);
+    assert.equal(game.state, HandState.Finished);
+    assert.equal(game.result, MarketResult.Win);
+  });
+
+  it("pushes a natural against a dealer natural", () => {
+    // A♥ Q♥ against J♦ A♦
+    const game = dealInitialHand(442n);
+
+    assert.deepEqual(game.playerHand, [26, 37]);
+    assert.deepEqual(game.dealerHand, [23, 13]);
+    assert.equal(game.natural, true);
+    assert.equal(game.state, HandState.Finished);
+    assert.equal(game.result, MarketResult.Push);
+  });
+});
+
+describe("hit", () => {
+  it("rehashes with the attempt counter until it finds an unused card", () => {
+    // 1000 % 52 = 12 (K♣) is already on the table
+    const game = activeGame([1, 2], [12, 3]); // 2♣ 3♣ against K♣ 4♣
+    const expected = referenceDraw([...game.usedCards], 1000n);
+
+    hit(game, 1000n);
+
+    assert.notEqual(expected, 12);
+    assert.equal(game.playerHand[2], expected);
+    assert.equal(game.state, HandState.Active);
+  });
+
+  it("is not allowed at 21", () => {
+    const game = activeGame([6, 6 + 13, 6 + 26], [9, 7]); // 7♣ 7♦ 7♥ against 10♣ 8♣
+    assert.throws(() => hit(game, 1n), /already at 21/);
+  });
+
+  it("busts over 21", () => {
+    const game = activeGame([9, 11], [8, 7]); // 10♣ Q♣ against 9♣ 8♣
+
+    hit(game, 5n); // 6♣
+
+    assert.deepEqual(game.playerHand, [9, 11, 5]);
+    assert.equal(game.state, HandState.Busted);
+    assert.equal(game.result, MarketResult.Lose);
+  });
+});
+
+describe("stand", () => {
+  it("draws dealer cards with the hand length (uint256) as the rehash value", () => {
+    // Deal for word 1 leaves the dealer on 5♥ 8♣ = 13
+    const word = 7919n;
+    const game = dealInitialHand(1n);
+    const used = [...game.usedCards];
+    const dealer = [...game.dealerHand];
+    let randomness = word;
+    while (calculateHandValue(dealer) < 17) {
+      dealer.push(referenceDraw(used, randomness));
+      randomness = hexToBigInt(keccak256(encodePacked(["uint256", "uint256"], [randomness, BigInt(dealer.length)])));
+    }
+
+    stand(game, word);
+
+    assert.deepEqual(dealer, [30, 7, 15, 41]);
+    assert.deepEqual(game.dealerHand, dealer);
+    assert.equal(calculateHandValue(game.dealerHand), 19);
+    assert.equal(game.state, HandState.Finished);
+    assert.equal(game.result, MarketResult.Lose); // Player 2♣ 6♦ = 8
+  });
+
+  it("stands on soft 17", () => {
+    const game = activeGame([9, 6], [0, 5]); // 10♣ 7♣ against A♣ 6♣
+
+    assert.ok(isSoftHand(game.dealerHand));
+    stand(game, 123n);
+
+    assert.deepEqual(game.dealerHand, [0, 5]);
+    assert.equal(game.result, MarketResult.Push);
+    assert.equal(game.state, HandState.Finished);
+  });
+
+  it("draws on soft 16", () => {
+    const game = activeGame([9, 6], [0, 4]); // 10♣ 7♣ against A♣ 5♣
+
+    stand(game, 123n);
+
+    assert.ok(game.dealerHand.length > 2);
+    assert.ok(calculateHandValue(game.dealerHand) >= 17);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Typed contract errors from the revert shapes nodes actually return to an eth_call
+ */
+
+import assert from "node:assert/strict";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { after, before, describe, it } from "node:test";
+import { createPublicClient, encodeErrorResult, http as httpTransport, parseAbi } from "viem";
+import {
+  ContractRevertError,
+  GameActiveError,
+  NeedsClaimError,
+  TradingPeriodActiveError,
+  decodeRevertReason,
+  toContractError,
+} from "../lib/contract-errors";
+
+const ERROR_ABI = parseAbi(["error Error(string)"]);
+
+function revertData(reason: string): `0x${string}` {
+  return encodeErrorResult({ abi: ERROR_ABI, errorName: "Error", args: [reason] });
+}
+
+// JSON-RPC error the local node answers eth_call with; set per test
+let rpcError: { code: number; message: string; data?: string };
+
+describe("toContractError", () => {
+  const server = http.createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      const { id } = JSON.parse(body);
+      response.setHeader("Content-Type", "application/json");
+      response.end(JSON.stringify({ jsonrpc: "2.0", id, error: rpcError }));
+    });
+  });
+
+  // The error viem raises for an eth_call the node rejected
+  const callError = async (): Promise<unknown> => {
+    const { port } = server.address() as AddressInfo;
+    const client = createPublicClient({ transport: httpTransport(`http://127.0.0.1:${port}`, { retryCount: 0 }) });
+    try {
+      await client.call({ to: "0x00000000000000000000000000000000000b1ac7", data: "0x" });
+    } catch (error) {
+      return error;
+    }
+    assert.fail("eth_call should have failed");
+  };
+
+  before(() => new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve)));
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it("decodes the reason from revert data when the message has no text", async () => {
+    rpcError = { code: 3, message: "execution reverted", data: revertData("Cannot hit: trading period active") };
+    const error = await callError();
+
+    assert.equal(decodeRevertReason(error), "Cannot hit: trading period active");
+    const typed = toContractError("hit", error);
+    assert.ok(typed instanceof TradingPeriodActiveError);
+    assert.equal(typed.reason, "Cannot hit: trading period active");
+  });
+
+  it("recognizes the reason in the message text when there is no data", async () => {
+    rpcError = { code: -32000, message: "execution reverted: Claim previous winnings first" };
+    const typed = toContractError("startGame", await callError());
+
+    assert.ok(typed instanceof NeedsClaimError);
+    assert.equal(typed.reason, "Claim previous winnings first");
+  });
+
+  it("maps each player-facing reason to its class", async () => {
+    rpcError = { code: 3, message: "execution reverted", data: revertData("Game already active") };
+    assert.ok(toContractError("startGame", await callError()) instanceof GameActiveError);
+
+    rpcError = { code: 3, message: "execution reverted", data: revertData("Nothing to claim") };
+    const typed = toContractError("claimWinnings", await callError());
+    assert.equal(typed?.constructor, ContractRevertError);
+    assert.equal(typed?.reason, "Nothing to claim");
+  });
+
+  it("still reports a revert without a reason", async () => {
+    rpcError = { code: 3, message: "execution reverted", data: "0x" };
+    const typed = toContractError("stand", await callError());
+
+    assert.equal(typed?.constructor, ContractRevertError);
+    assert.equal(typed?.reason, null);
+  });
+
+  it("is null for errors that aren't reverts", async () => {
+    rpcError = { code: -32005, message: "rate limit exceeded" };
+    assert.equal(toContractError("hit", await callError()), null);
+  });
+});
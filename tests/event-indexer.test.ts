@@ -0,0 +1,129 @@
+/**
+ * Event indexer against a fake chain: first sync from the deployment block, reorg rollback and re-indexing
+ */
+
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { after, describe, it } from "node:test";
+import type { PublicClient } from "viem";
+import { EventIndexer } from "../lib/event-indexer";
+
+const CONTRACT = "0x00000000000000000000000000000000000b1ac7";
+const PLAYER = "0x000000000000000000000000000000000000a11c";
+const DEPLOYED_IN = 3n;
+
+interface FakeLog {
+  eventName: string;
+  args: Record<string, unknown>;
+}
+
+interface FakeBlock {
+  hash: string;
+  logs: FakeLog[];
+}
+
+// Blocks by number; replacing entries from some block on simulates a fork
+class FakeChain {
+  blocks = new Map<bigint, FakeBlock>();
+  logRanges: [bigint, bigint][] = [];
+
+  mine(number: bigint, fork: string, logs: FakeLog[] = []): void {
+    this.blocks.set(number, { hash: `0x${fork}${number.toString(16).padStart(8, "0")}`, logs });
+  }
+
+  head(): bigint {
+    return BigInt(Math.max(...Array.from(this.blocks.keys(), Number)));
+  }
+
+  client(): PublicClient {
+    return {
+      getBlockNumber: async () => this.head(),
+      getCode: async ({ blockNumber }: { blockNumber: bigint }) => (blockNumber >= DEPLOYED_IN ? "0x6080" : undefined),
+      getBlock: async ({ blockNumber }: { blockNumber: bigint }) => ({
+        number: blockNumber,
+        hash: this.blocks.get(blockNumber)!.hash,
+        timestamp: 1_700_000_000n + blockNumber * 2n,
+      }),
+      getContractEvents: async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) => {
+        this.logRanges.push([fromBlock, toBlock]);
+        const logs = [];
+        for (let number = fromBlock; number <= toBlock; number++) {
+          const block = this.blocks.get(number);
+          for (const [logIndex, log] of (block?.logs ?? []).entries()) {
+            logs.push({ ...log, blockNumber: number, blockHash: block!.hash, logIndex, transactionHash: block!.hash });
+          }
+        }
+        return logs;
+      },
+    } as unknown as PublicClient;
+  }
+}
+
+function started(gameId: bigint): FakeLog {
+  return {
+    eventName: "GameStarted",
+    args: { player: PLAYER, gameId, feeIn: 700000000000000n, tokensReceived: 5000n, protocolFee: 0n },
+  };
+}
+
+function resolved(gameId: bigint, marketResult: number, result: string): FakeLog {
+  return {
+    eventName: "GameResolved",
+    args: { player: PLAYER, gameId, result, playerValue: 20n, dealerValue: 18n, marketResult },
+  };
+}
+
+describe("EventIndexer", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-test-"));
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("starts the first sync at the contract's deployment block", async () => {
+    const chain = new FakeChain();
+    for (let number = 0n; number <= 6n; number++) chain.mine(number, "a");
+    const indexer = new EventIndexer(path.join(dir, "deploy.db"), CONTRACT, chain.client());
+
+    await indexer.sync();
+
+    assert.deepEqual(chain.logRanges, [[DEPLOYED_IN, 6n]]);
+    assert.equal(indexer.getStatus().lastIndexedBlock, "6");
+  });
+
+  it("rolls back orphaned blocks and re-indexes the fork", async () => {
+    const chain = new FakeChain();
+    for (let number = 0n; number <= 10n; number++) chain.mine(number, "a");
+    chain.mine(5n, "a", [started(1n)]);
+    chain.mine(8n, "a", [resolved(1n, 1, "Player Wins"), started(2n)]);
+    const indexer = new EventIndexer(path.join(dir, "reorg.db"), CONTRACT, chain.client());
+
+    await indexer.sync();
+    assert.equal(indexer.getGame("1")?.outcome, "win");
+    assert.equal(indexer.getGame("2")?.outcome, "pending");
+
+    // Blocks 7-9 are replaced; game 1 isn't resolved on the new fork yet and game 2 never started
+    chain.blocks.delete(10n);
+    for (let number = 7n; number <= 9n; number++) chain.mine(number, "b");
+    await indexer.sync();
+
+    assert.equal(indexer.getStatus().reorgs, 1);
+    assert.equal(indexer.getStatus().lastIndexedBlock, "9");
+    assert.deepEqual(
+      indexer.getGameEvents("1").map((event) => event.eventName),
+      ["GameStarted"]
+    );
+    assert.equal(indexer.getGame("1")?.outcome, "pending");
+    assert.equal(indexer.getGame("2"), null);
+    assert.equal(indexer.getGameEvents("2").length, 0);
+
+    // The fork resolves game 1 differently
+    chain.mine(10n, "b", [resolved(1n, 2, "Dealer Wins")]);
+    await indexer.sync();
+
+    const game = indexer.getGame("1");
+    assert.equal(game?.outcome, "lose");
+    assert.equal(game?.resolvedBlock, 10);
+    assert.equal(indexer.getStatus().reorgs, 1);
+    assert.equal(indexer.getStatus().games, 1);
+  });
+});
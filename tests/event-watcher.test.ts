@@ -0,0 +1,94 @@
+/**
+ * Event watcher wake-ups: an event landing while the caller reads state must not be slept through
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { CdpSmartWalletProvider } from "@coinbase/agentkit";
+import type { PublicClient } from "viem";
+import { HandState } from "../lib/contract-types";
+import type { GameDisplay } from "../lib/chain-reader";
+import { ContractEventWatcher } from "../lib/event-watcher";
+import { BlackjackRPCClient } from "../lib/rpc-client";
+
+const CONTRACT = "0x00000000000000000000000000000000000b1ac7";
+const PLAYER = "0x000000000000000000000000000000000000a11c";
+
+// Client whose log filter is driven by the test through emit()
+function fakeClient() {
+  let onLogs: ((logs: unknown[]) => void) | null = null;
+  const client = {
+    watchContractEvent: (options: { onLogs: (logs: unknown[]) => void }) => {
+      onLogs = options.onLogs;
+      return () => {
+        onLogs = null;
+      };
+    },
+  } as unknown as PublicClient;
+
+  const emit = (eventName: string, gameId = 1n) =>
+    onLogs!([{ eventName, args: { player: PLAYER, gameId }, transactionHash: "0x01", blockNumber: 10n }]);
+
+  return { client, emit };
+}
+
+describe("ContractEventWatcher", () => {
+  it("returns at once for an event that arrived after the given count", async () => {
+    const { client, emit } = fakeClient();
+    const watcher = new ContractEventWatcher(client, CONTRACT, PLAYER);
+    watcher.start();
+
+    const count = watcher.getEventCount();
+    emit("GameResolved");
+    const startedAt = Date.now();
+    const event = await watcher.waitForEvent(5000, count);
+
+    assert.equal(event?.eventName, "GameResolved");
+    assert.ok(Date.now() - startedAt < 100);
+    watcher.stop();
+  });
+
+  it("waits for the next event when none arrived since the count", async () => {
+    const { client, emit } = fakeClient();
+    const watcher = new ContractEventWatcher(client, CONTRACT, PLAYER);
+    watcher.start();
+    emit("GameStarted");
+
+    const waiting = watcher.waitForEvent(5000, watcher.getEventCount());
+    setTimeout(() => emit("PlayerHit"), 20);
+
+    assert.equal((await waiting)?.eventName, "PlayerHit");
+    assert.equal(await watcher.waitForEvent(20, watcher.getEventCount()), null);
+    watcher.stop();
+  });
+});
+
+describe("BlackjackRPCClient.pollForStateChange", () => {
+  it("re-reads right away when the VRF callback lands during a state read", async () => {
+    const { client, emit } = fakeClient();
+    const states = [HandState.PendingHit, HandState.Active];
+
+    // The first read sees the pending state while the callback's event arrives
+    class RaceClient extends BlackjackRPCClient {
+      constructor() {
+        super({} as CdpSmartWalletProvider, CONTRACT, PLAYER);
+        this.publicClient = client;
+      }
+
+      async getGameStatus(): Promise<GameDisplay> {
+        const state = states.shift()!;
+        if (state === HandState.PendingHit) emit("PlayerHit");
+        return { state, status: HandState[state], canCancelStuck: false } as GameDisplay;
+      }
+    }
+
+    const rpcClient = new RaceClient();
+    rpcClient.startEventWatcher();
+    const startedAt = Date.now();
+    const display = await rpcClient.pollForStateChange(HandState.PendingHit, 10000);
+
+    assert.equal(display.state, HandState.Active);
+    assert.ok(Date.now() - startedAt < 1000, "slept through an event that arrived during the read");
+    rpcClient.stopEventWatcher();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Exact-EV engine: closed-form positions, the no-hit-at-21 rule, ace handling and fresh-hand EVs
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CARD_RANKS, CARD_SUITS } from "../lib/contract-types";
+import type { CardDisplay } from "../lib/contract-types";
+import { FRESH_HAND_EV, TableStrategy } from "../lib/decision-strategy";
+import { analyzeHand, cardIdFromDisplay, freshHandEv } from "../lib/optimal-strategy";
+
+function card(rank: string, suit = "Spades"): CardDisplay {
+  const index = CARD_RANKS.indexOf(rank);
+  return { rank, suit, value: index === 0 ? 11 : Math.min(index + 1, 10) };
+}
+
+function hand(...ranks: string[]): CardDisplay[] {
+  return ranks.map((rank) => card(rank));
+}
+
+describe("analyzeHand", () => {
+  it("wins every time standing on 20 against a dealer 17", () => {
+    const analysis = analyzeHand(hand("K", "Q"), hand("10", "7"));
+
+    assert.equal(analysis.playerTotal, 20);
+    assert.equal(analysis.dealerTotal, 17);
+    assert.deepEqual(analysis.stand, { win: 1, push: 0, loss: 0, ev: 1 });
+    assert.equal(analysis.best, "stand");
+    assert.equal(analysis.remainingCards, 48);
+  });
+
+  it("hits 20 against a dealer 21, pushing only on one of the 3 aces left in 48 cards", () => {
+    const analysis = analyzeHand(hand("K", "Q"), hand("K", "A"));
+
+    assert.deepEqual(analysis.stand, { win: 0, push: 0, loss: 1, ev: -1 });
+    assert.ok(analysis.hit);
+    assert.equal(analysis.hit.win, 0);
+    assert.ok(Math.abs(analysis.hit.push - 3 / 48) < 1e-12);
+    assert.ok(Math.abs(analysis.hit.ev + 45 / 48) < 1e-12);
+    assert.equal(analysis.best, "hit");
+  });
+
+  it("does not allow hitting at 21", () => {
+    for (const playerCards of [hand("A", "K"), hand("7", "7", "7")]) {
+      const analysis = analyzeHand(playerCards, hand("10", "6"));
+
+      assert.equal(analysis.playerTotal, 21);
+      assert.equal(analysis.hit, null);
+      assert.equal(analysis.best, "stand");
+      assert.equal(analysis.stand.loss, 0);
+    }
+  });
+
+  it("counts aces as 11 until the hand would bust", () => {
+    const total = (...ranks: string[]) => analyzeHand(hand(...ranks), hand("10", "7")).playerTotal;
+
+    assert.equal(total("A", "6"), 17);
+    assert.equal(total("A", "6", "K"), 17);
+    assert.equal(total("A", "A"), 12);
+    assert.equal(total("A", "A", "9"), 21);
+    assert.equal(total("A", "5", "A", "5"), 12);
+  });
+
+  it("counts a soft dealer hand the same way", () => {
+    assert.equal(analyzeHand(hand("10", "8"), hand("A", "6")).dealerTotal, 17);
+    assert.equal(analyzeHand(hand("10", "8"), hand("A", "6", "9")).dealerTotal, 16);
+  });
+});
+
+describe("cardIdFromDisplay", () => {
+  it("inverts the contract's card tables", () => {
+    for (let cardId = 0; cardId < 52; cardId++) {
+      const display = card(CARD_RANKS[cardId % 13], CARD_SUITS[Math.floor(cardId / 13)]);
+      assert.equal(cardIdFromDisplay(display), cardId);
+    }
+  });
+});
+
+describe("freshHandEv", () => {
+  it("scores naturals by the payout, except against a dealer natural", () => {
+    const alwaysStand = () => "stand" as const;
+
+    // Player A + ten (2 * 4 * 16 of 52 * 51 deals), dealer not A + ten from the 50 left (3 aces, 15 tens)
+    const naturalWithoutPush = ((2 * 4 * 16) / (52 * 51)) * (1 - (2 * 3 * 15) / (50 * 49));
+    assert.ok(Math.abs(freshHandEv(alwaysStand, 1) - freshHandEv(alwaysStand, 0) - naturalWithoutPush) < 1e-12);
+  });
+
+  it("gives the FRESH_HAND_EV figures start proposals show", () => {
+    const table = new TableStrategy();
+
+    assert.equal(Number(freshHandEv().toFixed(4)), FRESH_HAND_EV.optimal);
+    assert.equal(Number(freshHandEv((context) => table.lookup(context).action).toFixed(4)), FRESH_HAND_EV.table);
+  });
+});
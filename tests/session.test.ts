@@ -0,0 +1,55 @@
+/**
+ * Session stop conditions
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseEther } from "viem";
+import { GameResult } from "../lib/game-loop";
+import type { SessionStats } from "../lib/game-loop";
+import { GameSession } from "../lib/session";
+
+const STATS: SessionStats = { decisions: 0, deviations: 0, overrides: 0, evSaved: 0 };
+
+describe("GameSession", () => {
+  it("takes profit on realized P&L even though the ETH balance went down", () => {
+    const session = new GameSession({ takeProfitEth: 0.001 }, parseEther("0.01"));
+
+    // The bet left as ETH, the winnings came back as wASS
+    session.recordGame(GameResult.WIN, parseEther("0.0093"), 0.0012, STATS);
+
+    assert.equal(session.getProgress().netEth, 0.0012);
+    assert.equal(session.checkStop(), "take_profit");
+  });
+
+  it("does not stop-loss on the bets themselves while the session is winning", () => {
+    const session = new GameSession({ stopLossEth: 0.001 }, parseEther("0.01"));
+
+    session.recordGame(GameResult.WIN, parseEther("0.0079"), 0.0005, STATS);
+    session.recordGame(GameResult.WIN, parseEther("0.0072"), 0.0009, STATS);
+    assert.equal(session.checkStop(), null);
+
+    session.recordGame(GameResult.LOSS, parseEther("0.0065"), -0.0011, STATS);
+    assert.equal(session.checkStop(), "stop_loss");
+  });
+
+  it("keeps the last realized P&L when the ledger couldn't be read", () => {
+    const session = new GameSession({ stopLossEth: 0.001 }, parseEther("0.01"));
+
+    session.recordGame(GameResult.LOSS, null, -0.0012, STATS);
+    session.recordGame(GameResult.PUSH, null, null, STATS);
+
+    assert.equal(session.getProgress().netEth, -0.0012);
+    assert.equal(session.checkStop(), "stop_loss");
+  });
+
+  it("restores realized P&L from a checkpoint", () => {
+    const session = new GameSession({ takeProfitEth: 0.001 }, parseEther("0.01"));
+    session.recordGame(GameResult.WIN, null, 0.002, STATS);
+
+    const restored = GameSession.restore(session.toSnapshot());
+
+    assert.equal(restored.getProgress().netEth, 0.002);
+    assert.equal(restored.checkStop(), "take_profit");
+  });
+});